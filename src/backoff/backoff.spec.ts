@@ -0,0 +1,50 @@
+import { exponentialBackoff } from "..";
+
+describe("exponentialBackoff", () => {
+  /** Computes the durations of the given number of cycles */
+  const durations = (
+    backoff: (cycle: number, previous: number) => number,
+    count: number
+  ) => {
+    const result: number[] = [];
+    for (let cycle = 0; cycle < count; cycle++) {
+      result.push(backoff(cycle, cycle === 0 ? -1 : result[cycle - 1]));
+    }
+    return result;
+  };
+
+  it("should double the duration after every cycle by default", () => {
+    expect(durations(exponentialBackoff(100), 4)).toEqual([100, 200, 400, 800]);
+  });
+
+  it("should apply the factor and cap the duration", () => {
+    const backoff = exponentialBackoff(100, { factor: 3, max: 1000 });
+    expect(durations(backoff, 4)).toEqual([100, 300, 900, 1000]);
+  });
+
+  it("should randomize the whole duration with full jitter", () => {
+    const backoff = exponentialBackoff(100, {
+      jitter: "full",
+      random: () => 0.5,
+    });
+    expect(durations(backoff, 3)).toEqual([50, 100, 200]);
+  });
+
+  it("should keep half of the duration with equal jitter", () => {
+    const backoff = exponentialBackoff(100, {
+      jitter: "equal",
+      random: () => 0.5,
+    });
+    expect(durations(backoff, 3)).toEqual([75, 150, 300]);
+  });
+
+  it("should grow from the previous duration with decorrelated jitter", () => {
+    const backoff = exponentialBackoff(100, {
+      jitter: "decorrelated",
+      max: 1000,
+      random: () => 0.5,
+    });
+    // base + 0.5 * (previous * 3 - base)
+    expect(durations(backoff, 4)).toEqual([200, 350, 575, 912.5]);
+  });
+});
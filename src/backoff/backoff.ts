@@ -0,0 +1,66 @@
+import { RxTimerDurationFunction } from "..";
+
+/**
+ * Randomization of the backoff durations, spreading the retries of many clients:
+ * - 'none': The exponential duration itself.
+ * - 'full': A random duration between 0 and the exponential duration.
+ * - 'equal': Half of the exponential duration plus a random duration up to the other half.
+ * - 'decorrelated': A random duration between `base` and three times the previous duration.
+ */
+export type RxTimerJitter = "none" | "full" | "equal" | "decorrelated";
+
+/** Options of 'exponentialBackoff()' */
+export type RxTimerBackoffOptions = {
+  /** Multiplier applied to the duration after every cycle (default 2) */
+  factor?: number;
+  /** Longest duration in milliseconds, capping the backoff (no cap by default) */
+  max?: number;
+  /** Randomization of the durations (default 'none') */
+  jitter?: RxTimerJitter;
+  /** Source of random numbers between 0 and 1 (default `Math.random`) */
+  random?: () => number;
+};
+
+/**
+ * Creates a duration function growing exponentially with every cycle, for
+ * timers driving retries or polling.
+ *
+ * Example:
+ * ```typescript
+ * const retry = new RxTimer(
+ *   exponentialBackoff(1000, { max: 30000, jitter: "full" }),
+ *   { continue: true }
+ * );
+ * ```
+ * @param base The duration of the first cycle in milliseconds
+ * @param options The growth, cap and jitter of the durations
+ * @returns {RxTimerDurationFunction} The duration function.
+ */
+export function exponentialBackoff(
+  base: number,
+  options: RxTimerBackoffOptions = {}
+): RxTimerDurationFunction {
+  const {
+    factor = 2,
+    max = Infinity,
+    jitter = "none",
+    random = Math.random,
+  } = options;
+
+  return (cycle, previous) => {
+    if (jitter === "decorrelated") {
+      const last = previous < 0 ? base : previous;
+      return Math.min(base + random() * Math.max(last * 3 - base, 0), max);
+    }
+
+    const duration = Math.min(base * Math.pow(factor, cycle), max);
+    switch (jitter) {
+      case "full":
+        return random() * duration;
+      case "equal":
+        return duration / 2 + (random() * duration) / 2;
+      default:
+        return duration;
+    }
+  };
+}
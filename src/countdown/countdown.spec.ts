@@ -0,0 +1,108 @@
+import { Subject } from "rxjs";
+import { map, take } from "rxjs/operators";
+import { TestScheduler } from "rxjs/testing";
+import { RxCountdownCommand, RxTimerEvent, rxCountdown } from "..";
+import { createTestScheduler } from "../test-helpers";
+
+describe("rxCountdown", () => {
+  let scheduler: TestScheduler;
+  let events: [RxTimerEvent, number][];
+  let completeTime: number;
+
+  const record = {
+    next: ({ type }: { type: RxTimerEvent }) =>
+      events.push([type, scheduler.now()]),
+    complete: () => (completeTime = scheduler.now()),
+  };
+
+  beforeEach(() => {
+    scheduler = createTestScheduler();
+    events = [];
+    completeTime = -1;
+  });
+
+  it("should emit the events of the timer and complete after the tick", () => {
+    rxCountdown(50, { scheduler }).subscribe(record);
+    scheduler.flush();
+
+    expect(events).toEqual([
+      [RxTimerEvent.START, 0],
+      [RxTimerEvent.TICK, 50],
+    ]);
+    expect(completeTime).toBe(50);
+  });
+
+  it("should complete after the last cycle of a repeated timer", () => {
+    rxCountdown(50, { scheduler, continue: true, repeat: 2 }).subscribe(record);
+    scheduler.flush();
+
+    expect(events).toEqual([
+      [RxTimerEvent.START, 0],
+      [RxTimerEvent.TICK, 50],
+      [RxTimerEvent.TICK, 100],
+      [RxTimerEvent.COMPLETE, 100],
+    ]);
+    expect(completeTime).toBe(100);
+  });
+
+  it("should start a new timer for every subscription", () => {
+    const countdown$ = rxCountdown(50, { scheduler }).pipe(
+      map(({ type }) => type)
+    );
+    const ticks: number[] = [];
+
+    countdown$.subscribe(() => ticks.push(scheduler.now()));
+    scheduler.schedule(() => {
+      countdown$.subscribe(() => ticks.push(scheduler.now()));
+    }, 20);
+    scheduler.flush();
+
+    expect(ticks).toEqual([0, 20, 50, 70]);
+  });
+
+  it("should apply the commands of control$", () => {
+    const control$ = new Subject<RxCountdownCommand>();
+    rxCountdown(50, { scheduler, control$ }).subscribe(record);
+
+    scheduler.schedule(() => control$.next("pause"), 20);
+    scheduler.schedule(() => control$.next("resume"), 40);
+    scheduler.flush();
+
+    expect(events).toEqual([
+      [RxTimerEvent.START, 0],
+      [RxTimerEvent.PAUSE, 20],
+      [RxTimerEvent.RESUME, 40],
+      [RxTimerEvent.TICK, 70],
+    ]);
+    expect(control$.observers.length).toBe(0);
+  });
+
+  it("should complete when stopped by control$", () => {
+    const control$ = new Subject<RxCountdownCommand>();
+    rxCountdown(50, { scheduler, control$ }).subscribe(record);
+
+    scheduler.schedule(() => control$.next("stop"), 20);
+    scheduler.flush();
+
+    expect(events).toEqual([
+      [RxTimerEvent.START, 0],
+      [RxTimerEvent.STOP, 20],
+    ]);
+    expect(completeTime).toBe(20);
+  });
+
+  it("should release the timer on unsubscribe", () => {
+    rxCountdown(50, { scheduler, continue: true })
+      .pipe(take(2))
+      .subscribe(record);
+    scheduler.flush();
+
+    expect(events).toEqual([
+      [RxTimerEvent.START, 0],
+      [RxTimerEvent.TICK, 50],
+    ]);
+    expect(completeTime).toBe(50);
+    // No further cycle was armed after unsubscribing
+    expect(scheduler.now()).toBe(50);
+  });
+});
@@ -0,0 +1,81 @@
+import { Observable, Subscription } from "rxjs";
+import { RxTimer, RxTimerEvent, RxTimerEventDetail, RxTimerOptions } from "..";
+import { isFinishingEvent } from "../timer-state";
+
+/** Command controlling the timer of a countdown observable */
+export type RxCountdownCommand = "pause" | "resume" | "stop";
+
+/** Options of a countdown observable */
+export type RxCountdownOptions = RxTimerOptions & {
+  /** Commands applied to the timer of every subscription */
+  control$?: Observable<RxCountdownCommand>;
+};
+
+/**
+ * Creates a cold observable starting a new timer for every subscription. The
+ * observable emits the details of every event of the timer, and completes once
+ * the timer stops: after the 'Tick' event of its last cycle, or when it's stopped
+ * by a 'stop' command. Unsubscribing destroys the timer.
+ * @param duration The duration of the timer in milliseconds
+ * @param options The timer options, along with the `control$` commands
+ * @returns Observable<RxTimerEventDetail>
+ */
+export function rxCountdown(
+  duration: number,
+  options: RxCountdownOptions = {}
+): Observable<RxTimerEventDetail> {
+  const { control$, ...timerOptions } = options;
+
+  return new Observable<RxTimerEventDetail>((subscriber) => {
+    const timer = new RxTimer(duration, timerOptions);
+    const subscription = new Subscription();
+
+    subscription.add(
+      timer.onEventDetail().subscribe((detail) => {
+        subscriber.next(detail);
+        if (isFinalEvent(timer, detail.type)) subscriber.complete();
+      })
+    );
+    timer.start();
+
+    if (control$) {
+      subscription.add(
+        control$.subscribe((command) => {
+          switch (command) {
+            case "pause":
+              timer.pause();
+              break;
+            case "resume":
+              timer.resume();
+              break;
+            case "stop":
+              timer.stop();
+              break;
+          }
+        })
+      );
+    }
+
+    return () => {
+      subscription.unsubscribe();
+      timer.destroy();
+    };
+  });
+}
+
+/**
+ * Checks if the event ends the countdown of the timer.
+ * @param timer The timer of the countdown
+ * @param event The emitted event
+ */
+function isFinalEvent(timer: RxTimer, event: RxTimerEvent): boolean {
+  switch (event) {
+    case RxTimerEvent.STOP:
+    case RxTimerEvent.RESET:
+    case RxTimerEvent.SCHEDULE_CANCELLED:
+    case RxTimerEvent.DESTROY:
+      return true;
+    default:
+      return isFinishingEvent(timer, event);
+  }
+}
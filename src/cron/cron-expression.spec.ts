@@ -0,0 +1,73 @@
+import { RxTimerCronExpression } from "./cron-expression";
+
+describe("RxTimerCronExpression", () => {
+  const at = (...args: [number, number, number, number?, number?]) =>
+    new Date(
+      args[0],
+      args[1] - 1,
+      args[2],
+      args[3] || 0,
+      args[4] || 0
+    ).getTime();
+
+  it("should match every minute with wildcards", () => {
+    const cron = new RxTimerCronExpression("* * * * *");
+
+    expect(cron.next(at(2024, 1, 1, 10, 0) + 30000)).toBe(
+      at(2024, 1, 1, 10, 1)
+    );
+  });
+
+  it("should match strictly after the given time", () => {
+    const cron = new RxTimerCronExpression("30 9 * * *");
+
+    expect(cron.next(at(2024, 1, 1, 9, 30))).toBe(at(2024, 1, 2, 9, 30));
+    expect(cron.next(at(2024, 1, 1, 9, 29))).toBe(at(2024, 1, 1, 9, 30));
+  });
+
+  it("should support steps, ranges and lists", () => {
+    const cron = new RxTimerCronExpression("*/20 8-9,18 * * *");
+
+    expect(cron.next(at(2024, 1, 1, 9, 45))).toBe(at(2024, 1, 1, 18, 0));
+    expect(cron.next(at(2024, 1, 1, 18, 40))).toBe(at(2024, 1, 2, 8, 0));
+    expect(cron.next(at(2024, 1, 1, 8, 5))).toBe(at(2024, 1, 1, 8, 20));
+  });
+
+  it("should support month and day of week names", () => {
+    // 2024-01-05 is a Friday
+    const weekdays = new RxTimerCronExpression("0 9 * * MON-FRI");
+    expect(weekdays.next(at(2024, 1, 5, 10))).toBe(at(2024, 1, 8, 9));
+
+    const march = new RxTimerCronExpression("0 0 1 mar *");
+    expect(march.next(at(2024, 3, 1))).toBe(at(2025, 3, 1));
+  });
+
+  it("should accept 7 as Sunday", () => {
+    const cron = new RxTimerCronExpression("0 0 * * 7");
+
+    // 2024-01-07 is a Sunday
+    expect(cron.next(at(2024, 1, 1))).toBe(at(2024, 1, 7));
+  });
+
+  it("should match either day field when both are restricted", () => {
+    const cron = new RxTimerCronExpression("0 0 15 * SUN");
+
+    // 2024-01-07 is a Sunday, followed by the 14th and the 15th
+    expect(cron.next(at(2024, 1, 1))).toBe(at(2024, 1, 7));
+    expect(cron.next(at(2024, 1, 14))).toBe(at(2024, 1, 15));
+  });
+
+  it("should return -1 for an expression that never matches", () => {
+    const cron = new RxTimerCronExpression("0 0 30 2 *");
+
+    expect(cron.next(at(2024, 1, 1))).toBe(-1);
+  });
+
+  it("should throw on invalid expressions", () => {
+    expect(() => new RxTimerCronExpression("* * * *")).toThrow();
+    expect(() => new RxTimerCronExpression("60 * * * *")).toThrow();
+    expect(() => new RxTimerCronExpression("*/0 * * * *")).toThrow();
+    expect(() => new RxTimerCronExpression("5-1 * * * *")).toThrow();
+    expect(() => new RxTimerCronExpression("* * * FOO *")).toThrow();
+  });
+});
@@ -0,0 +1,214 @@
+/** Range of values accepted by a cron field */
+type CronFieldRange = {
+  min: number;
+  max: number;
+  names?: string[];
+};
+
+const MINUTE: CronFieldRange = { min: 0, max: 59 };
+const HOUR: CronFieldRange = { min: 0, max: 23 };
+const DAY_OF_MONTH: CronFieldRange = { min: 1, max: 31 };
+const MONTH: CronFieldRange = {
+  min: 1,
+  max: 12,
+  names: [
+    "JAN",
+    "FEB",
+    "MAR",
+    "APR",
+    "MAY",
+    "JUN",
+    "JUL",
+    "AUG",
+    "SEP",
+    "OCT",
+    "NOV",
+    "DEC",
+  ],
+};
+// 7 is accepted as an alias of Sunday
+const DAY_OF_WEEK: CronFieldRange = {
+  min: 0,
+  max: 7,
+  names: ["SUN", "MON", "TUE", "WED", "THU", "FRI", "SAT"],
+};
+
+/** Number of years searched for a matching time before giving up */
+const MAX_SEARCH_YEARS = 8;
+
+/**
+ * Represents a parsed cron expression with the five standard fields:
+ * minute, hour, day of month, month and day of week.
+ *
+ * Every field supports `*`, single values, ranges (`1-5`), steps (`*\/15`, `0-30/10`)
+ * and comma separated lists. Months and days of week also accept three-letter
+ * English names (`JAN`, `MON`). Times are evaluated in the local time zone.
+ */
+export class RxTimerCronExpression {
+  private minutes: boolean[];
+  private hours: boolean[];
+  private daysOfMonth: boolean[];
+  private months: boolean[];
+  private daysOfWeek: boolean[];
+  /** Whether both day fields are restricted, in which case either may match */
+  private matchEitherDay: boolean;
+
+  /**
+   * @param expression The cron expression, e.g. `0 9 * * MON-FRI`
+   * @throws {Error} When the expression is not a valid cron expression.
+   */
+  constructor(public readonly expression: string) {
+    const fields = expression.trim().split(/\s+/);
+    if (fields.length !== 5) {
+      throw new Error(
+        `Invalid cron expression "${expression}": expected 5 fields but got ${fields.length}`
+      );
+    }
+
+    const [minute, hour, dayOfMonth, month, dayOfWeek] = fields;
+    this.minutes = this.parseField(minute, MINUTE);
+    this.hours = this.parseField(hour, HOUR);
+    this.daysOfMonth = this.parseField(dayOfMonth, DAY_OF_MONTH);
+    this.months = this.parseField(month, MONTH);
+    this.daysOfWeek = this.parseField(dayOfWeek, DAY_OF_WEEK);
+    // Sunday can be written as either 0 or 7
+    this.daysOfWeek[0] = this.daysOfWeek[0] || this.daysOfWeek[7];
+
+    this.matchEitherDay = dayOfMonth !== "*" && dayOfWeek !== "*";
+  }
+
+  /**
+   * Calculates the first time matching the expression strictly after the given time.
+   * @param after The time in milliseconds to search from
+   * @returns {number} The matching time in milliseconds, or -1 if the expression
+   * never matches (e.g. `0 0 30 2 *`).
+   */
+  next(after: number): number {
+    const date = new Date(after);
+    date.setSeconds(0, 0);
+    date.setMinutes(date.getMinutes() + 1);
+
+    const limit = new Date(after).getFullYear() + MAX_SEARCH_YEARS;
+
+    while (date.getFullYear() <= limit) {
+      if (!this.months[date.getMonth() + 1]) {
+        date.setMonth(date.getMonth() + 1, 1);
+        date.setHours(0, 0);
+        continue;
+      }
+
+      if (!this.matchesDay(date)) {
+        date.setDate(date.getDate() + 1);
+        date.setHours(0, 0);
+        continue;
+      }
+
+      if (!this.hours[date.getHours()]) {
+        date.setHours(date.getHours() + 1, 0);
+        continue;
+      }
+
+      if (!this.minutes[date.getMinutes()]) {
+        date.setMinutes(date.getMinutes() + 1);
+        continue;
+      }
+
+      return date.getTime();
+    }
+
+    return -1;
+  }
+
+  /**
+   * Checks if the day of the given date matches the day of month and day of week fields.
+   * @param date The date to check
+   */
+  private matchesDay(date: Date): boolean {
+    const dayOfMonth = this.daysOfMonth[date.getDate()];
+    const dayOfWeek = this.daysOfWeek[date.getDay()];
+
+    return this.matchEitherDay
+      ? dayOfMonth || dayOfWeek
+      : dayOfMonth && dayOfWeek;
+  }
+
+  /**
+   * Parses a single field into a lookup table of the values it matches.
+   * @param field The field of the expression
+   * @param range The range of values accepted by the field
+   * @throws {Error} When the field is not valid.
+   */
+  private parseField(field: string, range: CronFieldRange): boolean[] {
+    const values: boolean[] = new Array(range.max + 1).fill(false);
+
+    for (const part of field.split(",")) {
+      const [rangePart, stepPart, ...rest] = part.split("/");
+      const step = stepPart === undefined ? 1 : Number(stepPart);
+      if (rest.length > 0 || !Number.isInteger(step) || step < 1) {
+        throw this.createFieldError(field);
+      }
+
+      let start = range.min;
+      let end = range.max;
+      if (rangePart !== "*") {
+        const [first, last, ...others] = rangePart.split("-");
+        if (others.length > 0) throw this.createFieldError(field);
+
+        start = this.parseValue(first, range, field);
+        // A single value with a step (e.g. `5/15`) runs up to the maximum
+        end =
+          last !== undefined
+            ? this.parseValue(last, range, field)
+            : stepPart !== undefined
+            ? range.max
+            : start;
+      }
+
+      if (start > end) throw this.createFieldError(field);
+
+      for (let value = start; value <= end; value += step) {
+        values[value] = true;
+      }
+    }
+
+    return values;
+  }
+
+  /**
+   * Parses a single value or name of a field.
+   * @param value The value to parse
+   * @param range The range of values accepted by the field
+   * @param field The field the value belongs to, used for error messages
+   */
+  private parseValue(
+    value: string,
+    range: CronFieldRange,
+    field: string
+  ): number {
+    const nameIndex = range.names
+      ? range.names.indexOf(value.toUpperCase())
+      : -1;
+    const parsed =
+      nameIndex >= 0
+        ? nameIndex + range.min
+        : /^\d+$/.test(value)
+        ? Number(value)
+        : NaN;
+
+    if (isNaN(parsed) || parsed < range.min || parsed > range.max) {
+      throw this.createFieldError(field);
+    }
+
+    return parsed;
+  }
+
+  /**
+   * Creates the error thrown for an invalid field.
+   * @param field The invalid field
+   */
+  private createFieldError(field: string): Error {
+    return new Error(
+      `Invalid cron expression "${this.expression}": invalid field "${field}"`
+    );
+  }
+}
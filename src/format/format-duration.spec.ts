@@ -0,0 +1,78 @@
+import { formatDuration } from "..";
+
+describe("formatDuration", () => {
+  describe("with a pattern", () => {
+    it("should format minutes and seconds by default", () => {
+      expect(formatDuration(65000)).toBe("01:05");
+      expect(formatDuration(0)).toBe("00:00");
+    });
+
+    it("should absorb the larger units into the largest token", () => {
+      expect(formatDuration(2 * 3600000 + 5000, "mm:ss")).toBe("120:05");
+      expect(formatDuration(90061001, "D[d] HH:mm:ss.SSS")).toBe(
+        "1d 01:01:01.001"
+      );
+    });
+
+    it("should round to the smallest token", () => {
+      expect(formatDuration(59001, "mm:ss")).toBe("01:00");
+      expect(formatDuration(59999, "mm:ss", { rounding: "floor" })).toBe(
+        "00:59"
+      );
+      expect(formatDuration(1449, "s.S", { rounding: "round" })).toBe("1.4");
+      expect(formatDuration(1234, "ss.SS")).toBe("01.24");
+    });
+
+    it("should keep the text between square brackets", () => {
+      expect(formatDuration(5000, "[Ends in] s[s]")).toBe("Ends in 5s");
+    });
+
+    it("should clamp negative durations to zero", () => {
+      expect(formatDuration(-500, "H:mm:ss")).toBe("0:00:00");
+    });
+  });
+
+  describe("with localized units", () => {
+    it("should format the non-zero units", () => {
+      expect(formatDuration(3723000, { style: "long" }, { locale: "en" })).toBe(
+        "1 hour, 2 minutes, 3 seconds"
+      );
+      expect(formatDuration(120000, { style: "short" }, { locale: "en" })).toBe(
+        "2 min"
+      );
+    });
+
+    it("should display every unit when requested", () => {
+      expect(
+        formatDuration(
+          120000,
+          { style: "narrow", largestUnit: "minutes", display: "always" },
+          { locale: "en" }
+        )
+      ).toBe("2m 0s");
+    });
+
+    it("should display the smallest unit of a zero duration", () => {
+      expect(formatDuration(0, { style: "long" }, { locale: "en" })).toBe(
+        "0 seconds"
+      );
+    });
+
+    it("should render the digital style", () => {
+      expect(formatDuration(3723400, { style: "digital" })).toBe("1:02:04");
+      expect(
+        formatDuration(83400, {
+          style: "digital",
+          largestUnit: "minutes",
+          smallestUnit: "milliseconds",
+        })
+      ).toBe("1:23.400");
+    });
+
+    it("should reject a largest unit smaller than the smallest unit", () => {
+      expect(() =>
+        formatDuration(0, { largestUnit: "seconds", smallestUnit: "hours" })
+      ).toThrow();
+    });
+  });
+});
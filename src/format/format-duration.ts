@@ -0,0 +1,273 @@
+/** Unit of a formatted duration */
+export type RxTimerDurationUnit =
+  | "days"
+  | "hours"
+  | "minutes"
+  | "seconds"
+  | "milliseconds";
+
+/** Rounding of a duration to the smallest displayed unit */
+export type RxTimerRounding = "ceil" | "floor" | "round";
+
+/** Options formatting a duration with units, in the style of `Intl.DurationFormat` */
+export type RxTimerDurationFormatOptions = {
+  /**
+   * Style of the units (default 'short'). The 'digital' style renders the
+   * duration as `H:mm:ss`.
+   */
+  style?: "long" | "short" | "narrow" | "digital";
+  /** Largest displayed unit, absorbing the larger ones (default 'hours') */
+  largestUnit?: RxTimerDurationUnit;
+  /** Smallest displayed unit (default 'seconds') */
+  smallestUnit?: RxTimerDurationUnit;
+  /** Whether units with a zero value are displayed (default 'auto': hidden) */
+  display?: "auto" | "always";
+};
+
+/**
+ * Format of a duration: either a pattern such as `mm:ss` or `HH:mm:ss.SSS`, or
+ * the options of a localized format.
+ */
+export type RxTimerFormat = string | RxTimerDurationFormatOptions;
+
+/** Options of 'formatDuration()' */
+export type RxTimerFormatOptions = {
+  /** Locale of a localized format (the default locale of the runtime by default) */
+  locale?: string | string[];
+  /** Rounding of the duration to the smallest displayed unit (default 'ceil') */
+  rounding?: RxTimerRounding;
+};
+
+/** `Intl.ListFormat`, missing from the type definitions of the targeted runtime */
+type IntlListFormat = new (
+  locales?: string | string[],
+  options?: { type: string; style: string }
+) => { format(list: string[]): string };
+
+/** Units of a duration, from the largest to the smallest */
+const UNITS: RxTimerDurationUnit[] = [
+  "days",
+  "hours",
+  "minutes",
+  "seconds",
+  "milliseconds",
+];
+
+/** Length of every unit in milliseconds */
+const UNIT_MILLISECONDS: Record<RxTimerDurationUnit, number> = {
+  days: 86400000,
+  hours: 3600000,
+  minutes: 60000,
+  seconds: 1000,
+  milliseconds: 1,
+};
+
+/** Unit of every pattern token */
+const TOKEN_UNITS: Record<string, RxTimerDurationUnit> = {
+  D: "days",
+  H: "hours",
+  m: "minutes",
+  s: "seconds",
+  S: "milliseconds",
+};
+
+/** Pattern token of every unit */
+const UNIT_TOKENS: Record<RxTimerDurationUnit, string> = {
+  days: "D",
+  hours: "H",
+  minutes: "m",
+  seconds: "s",
+  milliseconds: "S",
+};
+
+/** Tokens of a pattern, along with the literal text between square brackets */
+const PATTERN_TOKENS = /\[([^\]]*)\]|D+|H+|m+|s+|S+/g;
+
+/**
+ * Formats a duration with a pattern or with localized units.
+ *
+ * Patterns support `D` (days), `H` (hours), `m` (minutes), `s` (seconds) and
+ * `S` (fraction of a second, one digit per letter), padded to the length of the
+ * token. The largest unit of the pattern absorbs the larger ones, and text
+ * between square brackets is kept as is.
+ * @param ms The duration in milliseconds
+ * @param format The pattern or the options of a localized format (default 'mm:ss')
+ * @param options The locale and rounding of the duration
+ * @returns {string} The formatted duration.
+ */
+export function formatDuration(
+  ms: number,
+  format: RxTimerFormat = "mm:ss",
+  options: RxTimerFormatOptions = {}
+): string {
+  const { rounding = "ceil" } = options;
+
+  return typeof format === "string"
+    ? formatPattern(ms, format, rounding)
+    : formatUnits(ms, format, options.locale, rounding);
+}
+
+/**
+ * Formats a duration with a pattern.
+ * @param ms The duration in milliseconds
+ * @param pattern The pattern
+ * @param rounding The rounding to the smallest token of the pattern
+ */
+function formatPattern(
+  ms: number,
+  pattern: string,
+  rounding: RxTimerRounding
+): string {
+  const tokens = (pattern.match(PATTERN_TOKENS) || []).filter(
+    (token) => token[0] !== "["
+  );
+  const units = tokens.map((token) => TOKEN_UNITS[token[0]]);
+  const largestUnit = UNITS.find((unit) => units.includes(unit)) || "days";
+  const precision = Math.min(...tokens.map(getTokenPrecision));
+  const values = splitDuration(
+    roundDuration(ms, isFinite(precision) ? precision : 1, rounding),
+    largestUnit
+  );
+
+  return pattern.replace(PATTERN_TOKENS, (token: string, literal?: string) => {
+    if (literal !== undefined) return literal;
+
+    const unit = TOKEN_UNITS[token[0]];
+    return unit === "milliseconds"
+      ? pad(values.milliseconds, 3).slice(0, token.length)
+      : pad(values[unit], token.length);
+  });
+}
+
+/**
+ * Formats a duration with localized units.
+ * @param ms The duration in milliseconds
+ * @param options The options of the format
+ * @param locale The locale of the format
+ * @param rounding The rounding to the smallest unit
+ */
+function formatUnits(
+  ms: number,
+  options: RxTimerDurationFormatOptions,
+  locale: string | string[] | undefined,
+  rounding: RxTimerRounding
+): string {
+  const {
+    style = "short",
+    largestUnit = "hours",
+    smallestUnit = "seconds",
+    display = "auto",
+  } = options;
+  const units = UNITS.slice(
+    UNITS.indexOf(largestUnit),
+    UNITS.indexOf(smallestUnit) + 1
+  );
+  if (units.length === 0) {
+    throw new Error(
+      `Invalid duration format: ${largestUnit} is smaller than ${smallestUnit}`
+    );
+  }
+
+  if (style === "digital") {
+    const pattern = units
+      .map((unit, index) => {
+        if (unit === "milliseconds") return index === 0 ? "SSS" : ".SSS";
+
+        const token = UNIT_TOKENS[unit];
+        return index === 0 ? token : `:${token}${token}`;
+      })
+      .join("");
+    return formatPattern(ms, pattern, rounding);
+  }
+
+  const values = splitDuration(
+    roundDuration(ms, UNIT_MILLISECONDS[smallestUnit], rounding),
+    largestUnit
+  );
+  const shownUnits = units.filter(
+    (unit) => display === "always" || values[unit] > 0
+  );
+  const parts = (shownUnits.length > 0 ? shownUnits : [smallestUnit]).map(
+    (unit) => {
+      const unitOptions = {
+        style: "unit",
+        unit: unit.slice(0, -1),
+        unitDisplay: style,
+      };
+      return new Intl.NumberFormat(locale, unitOptions).format(values[unit]);
+    }
+  );
+
+  // The type guard narrows a reference, not the global namespace itself
+  const intl = Intl;
+  return hasListFormat(intl)
+    ? new intl.ListFormat(locale, { type: "unit", style }).format(parts)
+    : parts.join(" ");
+}
+
+/**
+ * Checks if the runtime supports `Intl.ListFormat`.
+ * @param intl The `Intl` namespace
+ */
+function hasListFormat(
+  intl: typeof Intl
+): intl is typeof Intl & { ListFormat: IntlListFormat } {
+  return "ListFormat" in intl;
+}
+
+/**
+ * Retrieves the length of the unit of a pattern token in milliseconds.
+ * @param token The pattern token
+ */
+function getTokenPrecision(token: string): number {
+  const unit = TOKEN_UNITS[token[0]];
+  return unit === "milliseconds"
+    ? Math.pow(10, 3 - Math.min(token.length, 3))
+    : UNIT_MILLISECONDS[unit];
+}
+
+/**
+ * Rounds a duration to a multiple of the given precision.
+ * @param ms The duration in milliseconds
+ * @param precision The precision in milliseconds
+ * @param rounding The rounding
+ */
+function roundDuration(
+  ms: number,
+  precision: number,
+  rounding: RxTimerRounding
+): number {
+  return Math[rounding](Math.max(ms, 0) / precision) * precision;
+}
+
+/**
+ * Splits a duration into units, starting from the largest unit.
+ * @param ms The duration in milliseconds
+ * @param largestUnit The unit absorbing the larger ones
+ */
+function splitDuration(
+  ms: number,
+  largestUnit: RxTimerDurationUnit
+): Record<RxTimerDurationUnit, number> {
+  const values = { days: 0, hours: 0, minutes: 0, seconds: 0, milliseconds: 0 };
+  let rest = ms;
+
+  UNITS.slice(UNITS.indexOf(largestUnit)).forEach((unit) => {
+    values[unit] = Math.floor(rest / UNIT_MILLISECONDS[unit]);
+    rest -= values[unit] * UNIT_MILLISECONDS[unit];
+  });
+
+  return values;
+}
+
+/**
+ * Pads a number with leading zeros.
+ * @param value The number
+ * @param length The minimum length
+ */
+function pad(value: number, length: number): string {
+  let text = String(value);
+  while (text.length < length) text = `0${text}`;
+
+  return text;
+}
@@ -0,0 +1,149 @@
+import { TestScheduler } from "rxjs/testing";
+import { RxGameClock, RxTimerEvent } from "..";
+import { createTestScheduler, recordEvents } from "../test-helpers";
+
+describe("RxGameClock", () => {
+  let scheduler: TestScheduler;
+
+  beforeEach(() => {
+    scheduler = createTestScheduler();
+  });
+
+  it("should count down the time of the player to move only", () => {
+    const clock = new RxGameClock(100, { scheduler });
+    const switches: [number, number][] = [];
+    clock.onSwitch().subscribe((p) => switches.push([p, scheduler.now()]));
+
+    clock.start();
+    scheduler.schedule(() => clock.press(), 30);
+    scheduler.schedule(() => {
+      expect(clock.getActivePlayer()).toBe(1);
+      expect(clock.getRemainingMilliseconds(0)).toBe(70);
+      expect(clock.getRemainingMilliseconds(1)).toBe(80);
+      expect(clock.getMoves(0)).toBe(1);
+      expect(clock.getMoves(1)).toBe(0);
+      clock.stop();
+    }, 50);
+    scheduler.flush();
+
+    expect(switches).toEqual([[1, 30]]);
+    expect(clock.getRemainingMilliseconds(0)).toBe(100);
+  });
+
+  it("should emit a flag fall when the time of a player runs out", () => {
+    const clock = new RxGameClock([100, 50], { scheduler });
+    const events = recordEvents(clock, scheduler);
+    let flagged = -1;
+    clock.onFlag().subscribe((player) => (flagged = player));
+
+    clock.start();
+    scheduler.schedule(() => clock.press(), 20);
+    scheduler.flush();
+
+    expect(events).toEqual([
+      [RxTimerEvent.START, 0],
+      [RxTimerEvent.TICK, 70],
+    ]);
+    expect(flagged).toBe(1);
+    expect(clock.isStopped()).toBe(true);
+    expect(clock.getRemainingMilliseconds(0)).toBe(80);
+    expect(clock.getRemainingMilliseconds(1)).toBe(0);
+  });
+
+  it("should rotate between more than two players", () => {
+    const clock = new RxGameClock(100, { scheduler, players: 3 });
+    const switches: number[] = [];
+    clock.onSwitch().subscribe((p) => switches.push(p));
+
+    clock.start(1);
+    clock.press();
+    clock.press();
+    clock.press();
+    clock.stop();
+
+    expect(switches).toEqual([2, 0, 1]);
+  });
+
+  it("should add the Fischer increment after each move", () => {
+    const clock = new RxGameClock(100, { scheduler, increment: 10 });
+
+    clock.start();
+    scheduler.schedule(() => clock.press(), 30);
+    scheduler.schedule(() => {
+      expect(clock.getRemainingMilliseconds(0)).toBe(80);
+      clock.stop();
+    }, 40);
+    scheduler.flush();
+  });
+
+  it("should give back the time used up to the Bronstein delay", () => {
+    const clock = new RxGameClock(100, {
+      scheduler,
+      delay: 20,
+      delayMode: "bronstein",
+    });
+
+    clock.start();
+    scheduler.schedule(() => clock.press(), 10);
+    scheduler.schedule(() => {
+      clock.press();
+      expect(clock.getRemainingMilliseconds(0)).toBe(100);
+      expect(clock.getRemainingMilliseconds(1)).toBe(70);
+      clock.stop();
+    }, 60);
+    scheduler.flush();
+  });
+
+  it("should wait for the simple delay before counting down", () => {
+    const clock = new RxGameClock(100, { scheduler, delay: 20 });
+
+    clock.start();
+    scheduler.schedule(() => {
+      expect(clock.isCounting()).toBe(true);
+      expect(clock.getDelayRemainingMilliseconds()).toBe(10);
+      expect(clock.getRemainingMilliseconds()).toBe(100);
+    }, 10);
+    scheduler.schedule(() => clock.pause(), 15);
+    scheduler.schedule(() => clock.resume(), 45);
+    scheduler.schedule(() => {
+      expect(clock.getRemainingMilliseconds()).toBe(90);
+      clock.press();
+    }, 60);
+    scheduler.schedule(() => {
+      expect(clock.getRemainingMilliseconds(0)).toBe(90);
+      expect(clock.getRemainingMilliseconds(1)).toBe(100);
+      clock.stop();
+    }, 70);
+    scheduler.flush();
+  });
+
+  it("should pause and resume the player to move", () => {
+    const clock = new RxGameClock(100, { scheduler });
+    const events = recordEvents(clock, scheduler);
+
+    clock.start();
+    scheduler.schedule(() => {
+      clock.pause();
+      clock.press();
+      expect(clock.isPaused()).toBe(true);
+      expect(clock.getActivePlayer()).toBe(0);
+    }, 30);
+    scheduler.schedule(() => clock.resume(), 50);
+    scheduler.flush();
+
+    expect(events).toEqual([
+      [RxTimerEvent.START, 0],
+      [RxTimerEvent.PAUSE, 30],
+      [RxTimerEvent.RESUME, 50],
+      [RxTimerEvent.TICK, 120],
+    ]);
+    expect(clock.getFlaggedPlayer()).toBe(0);
+  });
+
+  it("should reject an invalid starting player", () => {
+    const clock = new RxGameClock(100, { scheduler });
+
+    expect(() => clock.start(2)).toThrow();
+    expect(clock.isStopped()).toBe(true);
+  });
+});
@@ -0,0 +1,343 @@
+import { Observable, Subject } from "rxjs";
+import { filter, map } from "rxjs/operators";
+import { RxTimer, RxTimerEvent, RxTimerOptions } from "..";
+
+/** Options of a game clock */
+export type RxGameClockOptions = Pick<RxTimerOptions, "scheduler" | "clock"> & {
+  /** Number of players sharing the same initial time (2 by default) */
+  players?: number;
+  /** Time added to a player after each of their moves (Fischer increment) */
+  increment?: number;
+  /** Time granted at the beginning of each move before the player's time is used */
+  delay?: number;
+  /**
+   * How the delay is granted: 'simple' waits for the delay before counting down
+   * the player's time, while 'bronstein' counts down right away and gives back
+   * the time used, up to the delay, once the move is made
+   */
+  delayMode?: "simple" | "bronstein";
+};
+
+/**
+ * Clock of a turn-based game, running one RxTimer per player. Only the player
+ * to move is counting; pressing the clock ends their move and starts the move
+ * of the next player. The clock emits START, PAUSE, RESUME and STOP events, and
+ * a TICK event when the time of a player runs out (flag fall).
+ */
+export class RxGameClock {
+  /** Timers counting the time of every player */
+  readonly timers: RxTimer[];
+  /** Subject for clock events */
+  private event$ = new Subject<RxTimerEvent>();
+  /** Subject for the player to move, emitted on every switch */
+  private switch$ = new Subject<number>();
+  /** Timer counting the simple delay of the current move */
+  private delayTimer: RxTimer | null = null;
+  /** Index of the player to move, or -1 if the clock is stopped */
+  private active = -1;
+  /** Index of the player whose time ran out, or -1 if no flag fell */
+  private flagged = -1;
+  /** Number of moves made by every player */
+  private moves: number[];
+  /** Remaining time of the player to move when the move began */
+  private moveStartRemaining = 0;
+
+  /**
+   * Creates a game clock.
+   * @param time The initial time of every player in milliseconds, or the initial
+   * time of each player
+   * @param options The options of the clock
+   */
+  constructor(
+    time: number | number[],
+    public options: RxGameClockOptions = {}
+  ) {
+    const times = Array.isArray(time)
+      ? time
+      : new Array<number>(options.players ?? 2).fill(time);
+    if (times.length === 0) {
+      throw new Error("RxGameClock requires at least one player");
+    }
+
+    const { scheduler, clock } = options;
+    this.timers = times.map((t) => new RxTimer(t, { scheduler, clock }));
+    this.moves = times.map(() => 0);
+
+    if (options.delay && options.delayMode !== "bronstein") {
+      this.delayTimer = new RxTimer(options.delay, { scheduler, clock });
+      this.delayTimer.onTick().subscribe(() => {
+        this.timers[this.active].resume();
+      });
+    }
+
+    this.timers.forEach((timer, index) =>
+      timer.onTick().subscribe(() => {
+        if (index === this.active) this.flag(index);
+      })
+    );
+  }
+
+  /**
+   * Starts the clock with the full time of every player if it's stopped.
+   * @param player The index of the player to move first (0 by default)
+   */
+  start(player: number = 0): void {
+    if (!this.isStopped()) return;
+    if (player < 0 || player >= this.timers.length) {
+      throw new Error(`Invalid player index: ${player}`);
+    }
+
+    this.flagged = -1;
+    this.moves = this.moves.map(() => 0);
+    // Every player waits for their move with their full time
+    this.timers.forEach((timer) => {
+      timer.stop();
+      timer.start();
+      timer.pause();
+    });
+
+    this.active = player;
+    this.startMove();
+    this.event$.next(RxTimerEvent.START);
+  }
+
+  /**
+   * Ends the move of the active player, grants their increment or delay, and
+   * starts the move of the next player.
+   */
+  press(): void {
+    if (!this.isCounting()) return;
+
+    const player = this.active;
+    const timer = this.timers[player];
+    this.delayTimer?.stop();
+    if (timer.isCounting()) timer.pause();
+
+    const { increment, delay, delayMode } = this.options;
+    if (delay && delayMode === "bronstein") {
+      const used = this.moveStartRemaining - timer.getRemainingMilliseconds();
+      timer.addTime(Math.min(delay, used));
+    }
+    if (increment) timer.addTime(increment);
+    this.moves[player]++;
+
+    this.active = (player + 1) % this.timers.length;
+    this.startMove();
+    this.switch$.next(this.active);
+  }
+
+  /**
+   * Pauses the clock, including a running delay.
+   */
+  pause(): void {
+    if (!this.isCounting()) return;
+
+    if (this.delayTimer?.isCounting()) {
+      this.delayTimer.pause();
+    } else {
+      this.timers[this.active].pause();
+    }
+    this.event$.next(RxTimerEvent.PAUSE);
+  }
+
+  /**
+   * Resumes the clock, including a paused delay.
+   */
+  resume(): void {
+    if (!this.isPaused()) return;
+
+    if (this.delayTimer?.isPaused()) {
+      this.delayTimer.resume();
+    } else {
+      this.timers[this.active].resume();
+    }
+    this.event$.next(RxTimerEvent.RESUME);
+  }
+
+  /**
+   * Stops the clock and resets the time of every player.
+   */
+  stop(): void {
+    if (this.isStopped()) return;
+
+    this.active = -1;
+    this.delayTimer?.stop();
+    this.timers.forEach((timer) => timer.stop());
+    this.event$.next(RxTimerEvent.STOP);
+  }
+
+  /**
+   * Checks if the time of the player to move, or their delay, is counting.
+   * @returns {boolean} Returns true if the clock is counting; otherwise, returns false.
+   */
+  isCounting(): boolean {
+    return (
+      !this.isStopped() &&
+      (this.timers[this.active].isCounting() || !!this.delayTimer?.isCounting())
+    );
+  }
+
+  /**
+   * Checks if the clock is paused.
+   * @returns {boolean} Returns true if the clock is paused; otherwise, returns false.
+   */
+  isPaused(): boolean {
+    return !this.isStopped() && !this.isCounting();
+  }
+
+  /**
+   * Checks if the clock is stopped, either because it was never started, a flag
+   * fell or 'stop()' was invoked.
+   * @returns {boolean} Returns true if the clock is stopped; otherwise, returns false.
+   */
+  isStopped(): boolean {
+    return this.active === -1;
+  }
+
+  /**
+   * Retrieves the index of the player to move.
+   * @returns {number} The index of the active player, or -1 if the clock is stopped.
+   */
+  getActivePlayer(): number {
+    return this.active;
+  }
+
+  /**
+   * Retrieves the index of the player whose time ran out.
+   * @returns {number} The index of the flagged player, or -1 if no flag fell.
+   */
+  getFlaggedPlayer(): number {
+    return this.flagged;
+  }
+
+  /**
+   * Retrieves the remaining time of a player in milliseconds. A stopped clock
+   * reports the initial time of every player, except the flagged one.
+   * @param player The index of the player (the active player by default)
+   * @returns {number} The remaining time of the player.
+   */
+  getRemainingMilliseconds(player: number = this.active): number {
+    const timer = this.timers[player];
+    if (!timer) return 0;
+    if (!timer.isStopped()) return timer.getRemainingMilliseconds();
+
+    return player === this.flagged ? 0 : timer.duration;
+  }
+
+  /**
+   * Retrieves the remaining simple delay of the current move in milliseconds.
+   * @returns {number} The remaining delay, or 0 if the player's time is counting.
+   */
+  getDelayRemainingMilliseconds(): number {
+    return this.delayTimer?.getRemainingMilliseconds() ?? 0;
+  }
+
+  /**
+   * Retrieves the number of moves made by a player since the clock started.
+   * @param player The index of the player
+   * @returns {number} The number of moves.
+   */
+  getMoves(player: number): number {
+    return this.moves[player] ?? 0;
+  }
+
+  /**
+   * Triggers an event when the clock starts.
+   * @returns Observable<void>
+   */
+  onStart(): Observable<void> {
+    return this.onClockEvent(RxTimerEvent.START);
+  }
+
+  /**
+   * Triggers an event when the clock is paused.
+   * @returns Observable<void>
+   */
+  onPause(): Observable<void> {
+    return this.onClockEvent(RxTimerEvent.PAUSE);
+  }
+
+  /**
+   * Triggers an event when the clock is resumed.
+   * @returns Observable<void>
+   */
+  onResume(): Observable<void> {
+    return this.onClockEvent(RxTimerEvent.RESUME);
+  }
+
+  /**
+   * Triggers an event when the clock is stopped by 'stop()'.
+   * @returns Observable<void>
+   */
+  onStop(): Observable<void> {
+    return this.onClockEvent(RxTimerEvent.STOP);
+  }
+
+  /**
+   * Triggers an event when the time of a player runs out.
+   * @returns Observable<void>
+   */
+  onTick(): Observable<void> {
+    return this.onClockEvent(RxTimerEvent.TICK);
+  }
+
+  /**
+   * Triggers an event carrying the index of the player whose time ran out.
+   * @returns Observable<number>
+   */
+  onFlag(): Observable<number> {
+    return this.onTick().pipe(map(() => this.flagged));
+  }
+
+  /**
+   * Triggers an event carrying the index of the next player to move whenever
+   * the clock is pressed.
+   * @returns Observable<number>
+   */
+  onSwitch(): Observable<number> {
+    return this.switch$.asObservable();
+  }
+
+  /**
+   * All events of the clock can be listened to from here.
+   * @returns Observable<RxTimerEvent>
+   */
+  onEvent(): Observable<RxTimerEvent> {
+    return this.event$.asObservable();
+  }
+
+  /**
+   * Starts the move of the active player, beginning with the simple delay if any.
+   */
+  private startMove(): void {
+    this.moveStartRemaining =
+      this.timers[this.active].getRemainingMilliseconds();
+
+    if (this.delayTimer) {
+      this.delayTimer.start();
+    } else {
+      this.timers[this.active].resume();
+    }
+  }
+
+  /**
+   * Stops the clock when the time of a player runs out, and emits the TICK event.
+   * @param player The index of the flagged player
+   */
+  private flag(player: number): void {
+    this.flagged = player;
+    this.active = -1;
+    this.event$.next(RxTimerEvent.TICK);
+  }
+
+  /**
+   * Creates an observable of the given clock event.
+   * @param event The clock event
+   */
+  private onClockEvent(event: RxTimerEvent): Observable<void> {
+    return this.event$.pipe(
+      filter((e) => e === event),
+      map(() => {})
+    );
+  }
+}
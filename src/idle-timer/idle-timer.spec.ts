@@ -0,0 +1,129 @@
+import { TestScheduler } from "rxjs/testing";
+import { RxIdleTimer, RxIdleTimerOptions, RxTimerEvent } from "..";
+import { createTestScheduler, recordEvents } from "../test-helpers";
+
+describe("RxIdleTimer", () => {
+  let scheduler: TestScheduler;
+  let events: [RxTimerEvent, number][];
+
+  const createTimer = (timeout: number, options: RxIdleTimerOptions = {}) => {
+    const timer = new RxIdleTimer(timeout, { scheduler, ...options });
+    recordEvents(timer, scheduler, events);
+    return timer;
+  };
+
+  beforeEach(() => {
+    scheduler = createTestScheduler();
+    events = [];
+  });
+
+  it("should restart the countdown silently on touch()", () => {
+    const timer = createTimer(100);
+    let expireTime = -1;
+    timer.onExpire().subscribe(() => (expireTime = scheduler.now()));
+
+    timer.start();
+    scheduler.schedule(() => timer.touch(), 60);
+    scheduler.flush();
+
+    expect(events).toEqual([
+      [RxTimerEvent.START, 0],
+      [RxTimerEvent.TICK, 160],
+    ]);
+    expect(expireTime).toBe(160);
+  });
+
+  it("should emit the warning before every expiry", () => {
+    const timer = createTimer(100, { warning: 30 });
+    const warnings: number[] = [];
+    timer.onWarning().subscribe((remaining) => warnings.push(remaining));
+
+    timer.start();
+    scheduler.schedule(() => timer.touch(), 80);
+    scheduler.flush();
+
+    expect(events).toEqual([
+      [RxTimerEvent.START, 0],
+      [RxTimerEvent.WARNING, 70],
+      [RxTimerEvent.WARNING, 150],
+      [RxTimerEvent.TICK, 180],
+    ]);
+    expect(warnings).toEqual([30, 30]);
+  });
+
+  it("should postpone the warning while paused", () => {
+    const timer = createTimer(100, { warning: 30 });
+
+    timer.start();
+    scheduler.schedule(() => timer.pause(), 50);
+    scheduler.schedule(() => timer.resume(), 100);
+    scheduler.flush();
+
+    expect(events).toEqual([
+      [RxTimerEvent.START, 0],
+      [RxTimerEvent.PAUSE, 50],
+      [RxTimerEvent.RESUME, 100],
+      [RxTimerEvent.WARNING, 120],
+      [RxTimerEvent.TICK, 150],
+    ]);
+  });
+
+  it("should throttle the touches within the throttling time", () => {
+    const timer = createTimer(100, { touchThrottle: 50 });
+
+    timer.start();
+    scheduler.schedule(() => timer.touch(), 10);
+    scheduler.schedule(() => timer.touch(), 30);
+    scheduler.schedule(() => timer.touch(), 70);
+    scheduler.flush();
+
+    expect(events).toEqual([
+      [RxTimerEvent.START, 0],
+      [RxTimerEvent.TICK, 170],
+    ]);
+  });
+
+  it("should restart the countdown from a throttled touch", () => {
+    const timer = createTimer(1000, { touchThrottle: 500 });
+
+    scheduler.maxFrames = 2000;
+    timer.start();
+    scheduler.schedule(() => timer.touch(), 100);
+    scheduler.schedule(() => timer.touch(), 590);
+    scheduler.schedule(() => {
+      expect(timer.getRemainingMilliseconds()).toBe(980);
+    }, 610);
+    scheduler.flush();
+
+    expect(events).toEqual([
+      [RxTimerEvent.START, 0],
+      [RxTimerEvent.TICK, 1590],
+    ]);
+  });
+
+  it("should apply a throttled touch when paused", () => {
+    const timer = createTimer(100, { touchThrottle: 50 });
+
+    timer.start();
+    scheduler.schedule(() => timer.touch(), 10);
+    scheduler.schedule(() => timer.touch(), 30);
+    scheduler.schedule(() => timer.pause(), 40);
+    scheduler.flush();
+
+    expect(timer.getRemainingMilliseconds()).toBe(90);
+  });
+
+  it("should not restart an expired timer on touch()", () => {
+    const timer = createTimer(100);
+
+    timer.start();
+    scheduler.schedule(() => timer.touch(), 150);
+    scheduler.flush();
+
+    expect(timer.isStopped()).toBe(true);
+    expect(events).toEqual([
+      [RxTimerEvent.START, 0],
+      [RxTimerEvent.TICK, 100],
+    ]);
+  });
+});
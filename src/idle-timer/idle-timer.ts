@@ -0,0 +1,165 @@
+import { Observable, Subscription, interval } from "rxjs";
+import { map, take } from "rxjs/operators";
+import { RxTimer, RxTimerEvent, RxTimerOptions } from "..";
+
+/** Options of an idle timer */
+export type RxIdleTimerOptions = Pick<
+  RxTimerOptions,
+  "scheduler" | "clock" | "signal"
+> & {
+  /** Time before the expiry at which the 'Warning' event is emitted (no warning by default) */
+  warning?: number;
+  /** Shortest time between two 'touch()' calls that restart the countdown (no throttling by default) */
+  touchThrottle?: number;
+};
+
+/**
+ * Timer expiring after a period of inactivity, e.g. for an idle logout. Every
+ * user action calls 'touch()', which restarts the countdown without emitting
+ * any event, and the 'Warning' event announces the upcoming expiry.
+ */
+export class RxIdleTimer extends RxTimer {
+  /** Time before the expiry at which the 'Warning' event is emitted */
+  readonly warning: number;
+  /** Shortest time between two 'touch()' calls that restart the countdown */
+  readonly touchThrottle: number;
+  /** Subscription emitting the 'Warning' event */
+  private warningSubscription: Subscription | null = null;
+  /** Whether the 'Warning' event was emitted for the current countdown */
+  private warned = false;
+  /** Time of the last restart of the countdown by 'touch()', or -1 */
+  private lastTouch = -1;
+  /** Time of the last throttled 'touch()' call, or -1 */
+  private pendingTouch = -1;
+  /** Subscription applying the throttled 'touch()' call at the end of the throttle */
+  private pendingTouchSubscription: Subscription | null = null;
+
+  /**
+   * Creates an idle timer.
+   * @param timeout The inactivity time in milliseconds after which the timer expires
+   * @param options The options of the idle timer
+   */
+  constructor(timeout: number, options: RxIdleTimerOptions = {}) {
+    const { warning = 0, touchThrottle = 0, ...timerOptions } = options;
+    super(timeout, timerOptions);
+    this.warning = warning;
+    this.touchThrottle = touchThrottle;
+
+    this.onEvent().subscribe((event) => {
+      switch (event) {
+        case RxTimerEvent.START:
+        case RxTimerEvent.RESUME:
+        case RxTimerEvent.ADJUST:
+          this.armWarning();
+          break;
+        case RxTimerEvent.PAUSE:
+          this.applyPendingTouch();
+          this.warningSubscription?.unsubscribe();
+          break;
+        case RxTimerEvent.STOP:
+        case RxTimerEvent.RESET:
+        case RxTimerEvent.TICK:
+        case RxTimerEvent.DESTROY:
+          this.cancelPendingTouch();
+          this.warningSubscription?.unsubscribe();
+          break;
+      }
+    });
+  }
+
+  /**
+   * Restarts the countdown of a counting or paused timer without emitting any
+   * event. Calls closer than `touchThrottle` to the last restart are throttled:
+   * the latest one restarts the countdown from its own time once the throttle
+   * ends, or once the timer is paused.
+   */
+  touch(): void {
+    if (this.isStopped()) return;
+
+    const now = this.now();
+    if (this.lastTouch >= 0 && now - this.lastTouch < this.touchThrottle) {
+      this.pendingTouch = now;
+      if (!this.pendingTouchSubscription) {
+        this.pendingTouchSubscription = interval(
+          this.lastTouch + this.touchThrottle - now,
+          this.scheduler
+        )
+          .pipe(take(1))
+          .subscribe(() => this.applyPendingTouch());
+      }
+      return;
+    }
+
+    this.restartCountdown(now);
+  }
+
+  /**
+   * Triggers an event carrying the remaining time when the timer enters the
+   * warning window, once per countdown.
+   * @returns Observable<number>
+   */
+  onWarning(): Observable<number> {
+    return this.onEventDetail(RxTimerEvent.WARNING).pipe(
+      map((e) => e.remaining)
+    );
+  }
+
+  /**
+   * Triggers an event when the timer expires, as 'onTick()' does.
+   * @returns Observable<void>
+   */
+  onExpire(): Observable<void> {
+    return this.onTick();
+  }
+
+  /**
+   * Restarts the countdown from the time of a 'touch()' call.
+   * @param touchedAt The time of the call
+   */
+  private restartCountdown(touchedAt: number): void {
+    this.cancelPendingTouch();
+    const now = this.now();
+    this.lastTouch = now;
+    this.setRemainingSilently(this.duration - (now - touchedAt));
+    this.armWarning();
+  }
+
+  /**
+   * Restarts the countdown from the last throttled 'touch()' call, if any.
+   */
+  private applyPendingTouch(): void {
+    if (this.pendingTouch >= 0) this.restartCountdown(this.pendingTouch);
+  }
+
+  /**
+   * Drops the last throttled 'touch()' call, if any.
+   */
+  private cancelPendingTouch(): void {
+    this.pendingTouchSubscription?.unsubscribe();
+    this.pendingTouchSubscription = null;
+    this.pendingTouch = -1;
+  }
+
+  /**
+   * Arms the 'Warning' event for the current countdown, unless it was already
+   * emitted and the remaining time is still within the warning window.
+   */
+  private armWarning(): void {
+    this.warningSubscription?.unsubscribe();
+    if (this.warning <= 0) return;
+
+    const remaining = this.getRemainingMilliseconds();
+    if (remaining > this.warning) this.warned = false;
+    if (this.warned || !this.isCounting()) return;
+
+    this.warningSubscription = interval(
+      Math.max(remaining - this.warning, 0),
+      this.scheduler
+    )
+      .pipe(take(1))
+      .subscribe(() => {
+        this.warned = true;
+        this.emitEvent(RxTimerEvent.WARNING);
+      });
+  }
+}
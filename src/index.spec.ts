@@ -1,5 +1,15 @@
 import { filter, take } from "rxjs/operators";
-import { RxTimer, RxTimerEvent } from ".";
+import { TestScheduler } from "rxjs/testing";
+import {
+  RxTimer,
+  RxTimerEvent,
+  RxTimerEventDetail,
+  RxTimerOptions,
+  RxTimerProgress,
+  RxTimerStatus,
+  exponentialBackoff,
+} from ".";
+import { createTestScheduler, recordEvents } from "./test-helpers";
 describe("RxTimer", () => {
   it("should emit onTick event.", (done) => {
     const timer = new RxTimer(25);
@@ -372,7 +382,7 @@ describe("RxTimer", () => {
       }, 570);
     });
 
-    it("should emit START and TICK events after specified time", (done) => {
+    it("should emit SCHEDULED, START and TICK events after specified time", (done) => {
       const timer = new RxTimer(50, { beginTime: new Date().getTime() + 500 });
 
       const eventStack: RxTimerEvent[] = [];
@@ -384,7 +394,7 @@ describe("RxTimer", () => {
 
       setTimeout(() => {
         expect(eventStack.join()).toBe(
-          [RxTimerEvent.START, RxTimerEvent.TICK].join()
+          [RxTimerEvent.SCHEDULED, RxTimerEvent.START, RxTimerEvent.TICK].join()
         );
         done();
       }, 570);
@@ -407,7 +417,7 @@ describe("RxTimer", () => {
       }, 100);
     });
 
-    it("should not emit any events before specified time", (done) => {
+    it("should only emit SCHEDULED event before specified time", (done) => {
       const timer = new RxTimer(50, { beginTime: new Date().getTime() + 500 });
 
       const eventStack: RxTimerEvent[] = [];
@@ -418,7 +428,7 @@ describe("RxTimer", () => {
       timer.start();
 
       setTimeout(() => {
-        expect(eventStack.join()).toBe([].join());
+        expect(eventStack.join()).toBe([RxTimerEvent.SCHEDULED].join());
         done();
       }, 100);
     });
@@ -547,4 +557,1518 @@ describe("RxTimer", () => {
       expect(timer.isCounting()).toBe(true);
     });
   });
+
+  describe("testing scheduler and clock options", () => {
+    let scheduler: TestScheduler;
+
+    beforeEach(() => {
+      scheduler = createTestScheduler();
+    });
+
+    it("should emit onTick event in virtual time", () => {
+      const timer = new RxTimer(50, { scheduler });
+      const tickTimes: number[] = [];
+
+      timer.onTick().subscribe(() => tickTimes.push(scheduler.now()));
+
+      timer.start();
+      scheduler.flush();
+
+      expect(tickTimes).toEqual([50]);
+      expect(timer.isStopped()).toBe(true);
+    });
+
+    it("should keep the remaining time across pause and resume in virtual time", () => {
+      const timer = new RxTimer(50, { scheduler });
+      const tickTimes: number[] = [];
+
+      timer.onTick().subscribe(() => tickTimes.push(scheduler.now()));
+
+      timer.start();
+      scheduler.schedule(() => timer.pause(), 20);
+      scheduler.schedule(() => {
+        expect(timer.getRemainingMilliseconds()).toBe(30);
+        timer.resume();
+      }, 100);
+      scheduler.schedule(() => {
+        expect(timer.getRemainingMilliseconds()).toBe(20);
+      }, 110);
+      scheduler.flush();
+
+      expect(tickTimes).toEqual([130]);
+    });
+
+    it("should wait for beginTime in virtual time", () => {
+      const timer = new RxTimer(50, { scheduler, beginTime: 100 });
+      const events = recordEvents(timer, scheduler);
+
+      timer.start();
+      scheduler.flush();
+
+      expect(events).toEqual([
+        [RxTimerEvent.SCHEDULED, 0],
+        [RxTimerEvent.START, 100],
+        [RxTimerEvent.TICK, 150],
+      ]);
+    });
+
+    it("should emit a tick every cycle with continue: true in virtual time", () => {
+      const timer = new RxTimer(50, { scheduler, continue: true });
+      const tickTimes: number[] = [];
+
+      timer.onTick().subscribe(() => tickTimes.push(scheduler.now()));
+
+      timer.start();
+      scheduler.schedule(() => timer.stop(), 175);
+      scheduler.flush();
+
+      expect(tickTimes).toEqual([50, 100, 150]);
+    });
+
+    it("should compute the remaining time from the provided clock", () => {
+      let now = 1000;
+      const timer = new RxTimer(200, { clock: () => now });
+
+      timer.start();
+      now = 1080;
+
+      expect(timer.getRemainingMilliseconds()).toBe(120);
+
+      timer.pause();
+      now = 5000;
+
+      expect(timer.getRemainingMilliseconds()).toBe(120);
+      timer.stop();
+    });
+
+    it("should tick after a countdown longer than a single scheduler delay", () => {
+      const duration = 3 * 2147483647;
+      const timer = new RxTimer(duration, { scheduler });
+      const tickTimes: number[] = [];
+
+      timer.onTick().subscribe(() => tickTimes.push(scheduler.now()));
+
+      timer.start();
+      scheduler.maxFrames = duration;
+      scheduler.schedule(() => {
+        expect(timer.getRemainingMilliseconds()).toBe(duration - 2147483648);
+        expect(timer.getElapsedMilliseconds()).toBe(2147483648);
+      }, 2147483648);
+      scheduler.flush();
+
+      expect(tickTimes).toEqual([duration]);
+    });
+  });
+
+  describe("testing onProgress", () => {
+    let scheduler: TestScheduler;
+
+    beforeEach(() => {
+      scheduler = createTestScheduler();
+    });
+
+    it("should emit progress at the given resolution and a final 0 on tick", () => {
+      const timer = new RxTimer(100, { scheduler });
+      const progress: RxTimerProgress[] = [];
+
+      timer.onProgress(25).subscribe((p) => progress.push(p));
+
+      timer.start();
+      scheduler.flush();
+
+      expect(progress.map((p) => p.remaining)).toEqual([100, 75, 50, 25, 0]);
+      expect(progress[progress.length - 1]).toEqual({
+        remaining: 0,
+        elapsed: 100,
+        ratio: 1,
+        cycle: 0,
+      });
+    });
+
+    it("should stay silent while paused", () => {
+      const timer = new RxTimer(100, { scheduler });
+      const progress: [number, number][] = [];
+
+      timer
+        .onProgress(20)
+        .subscribe((p) => progress.push([scheduler.now(), p.remaining]));
+
+      timer.start();
+      scheduler.schedule(() => timer.pause(), 30);
+      scheduler.schedule(() => timer.resume(), 200);
+      scheduler.flush();
+
+      expect(progress).toEqual([
+        [0, 100],
+        [20, 80],
+        [200, 70],
+        [220, 50],
+        [240, 30],
+        [260, 10],
+        [270, 0],
+      ]);
+    });
+
+    it("should not shift the sampling upon other events", () => {
+      const timer = new RxTimer(100, { scheduler, milestones: [50] });
+      const progress: [number, number][] = [];
+
+      timer
+        .onProgress(25)
+        .subscribe((p) => progress.push([scheduler.now(), p.remaining]));
+
+      timer.start();
+      scheduler.schedule(() => timer.addTime(10), 30);
+      scheduler.flush();
+
+      expect(progress).toEqual([
+        [0, 100],
+        [25, 75],
+        [50, 60],
+        [75, 35],
+        [100, 10],
+        [110, 0],
+      ]);
+    });
+
+    it("should report the cycle index with continue: true", () => {
+      const timer = new RxTimer(50, { scheduler, continue: true });
+      const completed: RxTimerProgress[] = [];
+
+      timer
+        .onProgress(50)
+        .pipe(filter((p) => p.remaining === 0))
+        .subscribe((p) => completed.push(p));
+
+      timer.start();
+      scheduler.schedule(() => timer.stop(), 160);
+      scheduler.flush();
+
+      expect(completed.map((p) => p.cycle)).toEqual([0, 1, 2]);
+    });
+  });
+
+  describe("testing endTime option", () => {
+    let scheduler: TestScheduler;
+    let tickTimes: number[];
+
+    beforeEach(() => {
+      scheduler = createTestScheduler();
+      tickTimes = [];
+    });
+
+    it("should count down to the deadline created with until()", () => {
+      const timer = RxTimer.until(100, { scheduler });
+      timer.onTick().subscribe(() => tickTimes.push(scheduler.now()));
+
+      expect(timer.duration).toBe(100);
+
+      scheduler.schedule(() => timer.start(), 30);
+      scheduler.schedule(() => {
+        expect(timer.getRemainingMilliseconds()).toBe(60);
+      }, 40);
+      scheduler.flush();
+
+      expect(tickTimes).toEqual([100]);
+    });
+
+    it("should keep the deadline fixed across pause and resume", () => {
+      const timer = RxTimer.until(100, { scheduler });
+      timer.onTick().subscribe(() => tickTimes.push(scheduler.now()));
+
+      timer.start();
+      scheduler.schedule(() => timer.pause(), 20);
+      scheduler.schedule(() => {
+        timer.resume();
+        expect(timer.getRemainingMilliseconds()).toBe(50);
+      }, 50);
+      scheduler.flush();
+
+      expect(tickTimes).toEqual([100]);
+    });
+
+    it("should shift the deadline by the paused time with shiftEndTimeOnPause", () => {
+      const timer = RxTimer.until(100, {
+        scheduler,
+        shiftEndTimeOnPause: true,
+      });
+      timer.onTick().subscribe(() => tickTimes.push(scheduler.now()));
+
+      timer.start();
+      scheduler.schedule(() => timer.pause(), 20);
+      scheduler.schedule(() => timer.resume(), 50);
+      scheduler.flush();
+
+      expect(tickTimes).toEqual([130]);
+    });
+
+    it("should tick immediately when resumed after the deadline", () => {
+      const timer = RxTimer.until(100, { scheduler });
+      const events: RxTimerEvent[] = [];
+      timer.onEvent().subscribe((e) => events.push(e));
+      timer.onTick().subscribe(() => tickTimes.push(scheduler.now()));
+
+      timer.start();
+      scheduler.schedule(() => timer.pause(), 20);
+      scheduler.schedule(() => timer.resume(), 150);
+      scheduler.flush();
+
+      expect(tickTimes).toEqual([150]);
+      expect(events).toEqual([
+        RxTimerEvent.START,
+        RxTimerEvent.PAUSE,
+        RxTimerEvent.RESUME,
+        RxTimerEvent.TICK,
+      ]);
+    });
+
+    it("should wait for beginTime and count down to endTime", () => {
+      const timer = new RxTimer(1000, {
+        scheduler,
+        beginTime: 50,
+        endTime: 120,
+      });
+      const events = recordEvents(timer, scheduler);
+
+      timer.start();
+      scheduler.flush();
+
+      expect(events).toEqual([
+        [RxTimerEvent.SCHEDULED, 0],
+        [RxTimerEvent.START, 50],
+        [RxTimerEvent.TICK, 120],
+      ]);
+    });
+
+    it("should anchor continued cycles to the previous deadline", () => {
+      const timer = new RxTimer(50, {
+        scheduler,
+        endTime: 100,
+        continue: true,
+      });
+      timer.onTick().subscribe(() => tickTimes.push(scheduler.now()));
+
+      timer.start();
+      scheduler.schedule(() => timer.stop(), 220);
+      scheduler.flush();
+
+      expect(tickTimes).toEqual([100, 150, 200]);
+    });
+  });
+
+  describe("testing schedule option", () => {
+    const MINUTE = 60 * 1000;
+    // Local midnight, so that the expressions below do not depend on the time zone
+    const base = new Date(2024, 0, 1).getTime();
+    let scheduler: TestScheduler;
+    let clock: () => number;
+
+    beforeEach(() => {
+      scheduler = createTestScheduler();
+      scheduler.maxFrames = 60 * MINUTE;
+      clock = () => base + scheduler.now();
+    });
+
+    it("should start a cycle at every scheduled time", () => {
+      const timer = new RxTimer(MINUTE, {
+        scheduler,
+        clock,
+        schedule: "*/10 * * * *",
+      });
+      const tickTimes: number[] = [];
+      timer.onTick().subscribe(() => tickTimes.push(scheduler.now()));
+
+      timer.start();
+      scheduler.schedule(() => timer.stop(), 35 * MINUTE);
+      scheduler.flush();
+
+      expect(tickTimes).toEqual([11 * MINUTE, 21 * MINUTE, 31 * MINUTE]);
+      expect(timer.isStopped()).toBe(true);
+    });
+
+    it("should emit the next run time on scheduled", () => {
+      const timer = new RxTimer(MINUTE, {
+        scheduler,
+        clock,
+        schedule: "*/10 * * * *",
+      });
+      const scheduled: number[] = [];
+      timer.onScheduled().subscribe((time) => scheduled.push(time));
+
+      timer.start();
+      expect(timer.getNextRunTime()).toBe(base + 10 * MINUTE);
+
+      scheduler.schedule(() => {
+        expect(timer.getNextRunTime()).toBe(base + 20 * MINUTE);
+        timer.stop();
+      }, 10 * MINUTE + 1);
+      scheduler.flush();
+
+      expect(scheduled).toEqual([base + 10 * MINUTE]);
+      expect(timer.getNextRunTime()).toBe(-1);
+    });
+
+    it("should not wait for the next scheduled time when stopped on tick", () => {
+      const timer = new RxTimer(MINUTE, {
+        scheduler,
+        clock,
+        schedule: "*/10 * * * *",
+      });
+      let tickCount = 0;
+      timer.onTick().subscribe(() => {
+        tickCount++;
+        timer.stop();
+      });
+
+      timer.start();
+      scheduler.flush();
+
+      expect(tickCount).toBe(1);
+      expect(timer.getNextRunTime()).toBe(-1);
+    });
+
+    it("should start the first cycle after beginTime", () => {
+      const timer = new RxTimer(MINUTE, {
+        scheduler,
+        clock,
+        beginTime: base + 15 * MINUTE,
+        schedule: "*/10 * * * *",
+      });
+      const startTimes: number[] = [];
+      timer.onStart().subscribe(() => startTimes.push(scheduler.now()));
+
+      timer.start();
+      scheduler.schedule(() => timer.stop(), 35 * MINUTE);
+      scheduler.flush();
+
+      expect(startTimes).toEqual([20 * MINUTE, 30 * MINUTE]);
+    });
+  });
+
+  describe("testing continueMode option", () => {
+    let scheduler: TestScheduler;
+    let offset: number;
+    let clock: () => number;
+
+    beforeEach(() => {
+      scheduler = createTestScheduler();
+      offset = 0;
+      clock = () => scheduler.now() + offset;
+    });
+
+    it("should accumulate the latency of every tick in fixed-delay mode", () => {
+      const timer = new RxTimer(50, { scheduler, clock, continue: true });
+      const tickTimes: number[] = [];
+      timer.onTick().subscribe(() => {
+        tickTimes.push(clock());
+        // Handling the tick takes 5ms
+        offset += 5;
+      });
+
+      timer.start();
+      scheduler.schedule(() => timer.stop(), 170);
+      scheduler.flush();
+
+      expect(tickTimes).toEqual([50, 105, 160]);
+    });
+
+    it("should compensate the latency of every tick in fixed-rate mode", () => {
+      const timer = new RxTimer(50, {
+        scheduler,
+        clock,
+        continue: true,
+        continueMode: "fixed-rate",
+      });
+      const tickTimes: number[] = [];
+      timer.onTick().subscribe(() => {
+        tickTimes.push(clock());
+        offset += 5;
+      });
+
+      timer.start();
+      scheduler.schedule(() => timer.stop(), 170);
+      scheduler.flush();
+
+      expect(tickTimes).toEqual([50, 100, 150]);
+    });
+
+    it("should skip and report the cycles missed during a stall", () => {
+      const timer = new RxTimer(50, {
+        scheduler,
+        clock,
+        continue: true,
+        continueMode: "fixed-rate",
+      });
+      const ticks: [number, number][] = [];
+      const missed: number[] = [];
+      timer.onTick().subscribe(() => ticks.push([clock(), timer.cycle]));
+      timer.onMissed().subscribe((count) => missed.push(count));
+
+      timer.start();
+      // The event loop is blocked for 130ms
+      scheduler.schedule(() => (offset += 130), 20);
+      scheduler.schedule(() => timer.stop(), 125);
+      scheduler.flush();
+
+      expect(ticks).toEqual([
+        [180, 0],
+        [200, 3],
+        [250, 4],
+      ]);
+      expect(missed).toEqual([2]);
+    });
+
+    it("should resolve the duration of every missed cycle", () => {
+      const calls: number[] = [];
+      const timer = new RxTimer(
+        (cycle) => {
+          calls.push(cycle);
+          return 50;
+        },
+        { scheduler, clock, continue: true, continueMode: "fixed-rate" }
+      );
+      const ticks: [number, number][] = [];
+      timer.onTick().subscribe(() => ticks.push([clock(), timer.cycle]));
+
+      timer.start();
+      // The event loop is blocked for 130ms
+      scheduler.schedule(() => (offset += 130), 20);
+      scheduler.schedule(() => timer.stop(), 75);
+      scheduler.flush();
+
+      expect(ticks).toEqual([
+        [180, 0],
+        [200, 3],
+      ]);
+      expect(calls).toEqual([0, 1, 2, 3, 4]);
+    });
+
+    it("should emit the ticks missed during a stall with catchUp", () => {
+      const timer = new RxTimer(50, {
+        scheduler,
+        clock,
+        continue: true,
+        continueMode: "fixed-rate",
+        catchUp: true,
+      });
+      const cycles: number[] = [];
+      let missedCount = 0;
+      timer.onTick().subscribe(() => cycles.push(timer.cycle));
+      timer.onMissed().subscribe(() => missedCount++);
+
+      timer.start();
+      scheduler.schedule(() => (offset += 130), 20);
+      scheduler.schedule(() => {
+        expect(timer.getRemainingMilliseconds()).toBe(20);
+        timer.stop();
+      }, 50);
+      scheduler.flush();
+
+      expect(cycles).toEqual([0, 1, 2]);
+      expect(missedCount).toBe(0);
+    });
+  });
+
+  describe("testing repeat option", () => {
+    let scheduler: TestScheduler;
+
+    beforeEach(() => {
+      scheduler = createTestScheduler();
+    });
+
+    it("should complete after the last cycle", () => {
+      const timer = new RxTimer(50, { scheduler, continue: true, repeat: 3 });
+      const events = recordEvents(timer, scheduler);
+
+      timer.start();
+      scheduler.flush();
+
+      expect(events).toEqual([
+        [RxTimerEvent.START, 0],
+        [RxTimerEvent.TICK, 50],
+        [RxTimerEvent.TICK, 100],
+        [RxTimerEvent.TICK, 150],
+        [RxTimerEvent.COMPLETE, 150],
+      ]);
+      expect(timer.isStopped()).toBe(true);
+    });
+
+    it("should not complete when a TICK subscriber starts the timer again", () => {
+      const timer = new RxTimer(50, { scheduler, continue: true, repeat: 2 });
+      const events = recordEvents(timer, scheduler);
+      let restarted = false;
+      timer.onTick().subscribe(() => {
+        if (timer.isStopped() && !restarted) {
+          restarted = true;
+          timer.start();
+        }
+      });
+
+      timer.start();
+      scheduler.flush();
+
+      expect(events).toEqual([
+        [RxTimerEvent.START, 0],
+        [RxTimerEvent.TICK, 50],
+        [RxTimerEvent.TICK, 100],
+        [RxTimerEvent.START, 100],
+        [RxTimerEvent.TICK, 150],
+        [RxTimerEvent.TICK, 200],
+        [RxTimerEvent.COMPLETE, 200],
+      ]);
+    });
+
+    it("should count the cycles", () => {
+      const timer = new RxTimer(50, { scheduler, continue: true, repeat: 3 });
+      const cycles: [number, number][] = [];
+      timer
+        .onTick()
+        .subscribe(() =>
+          cycles.push([timer.getCycle(), timer.getRemainingCycles()])
+        );
+      let completedCycle = -1;
+      timer.onComplete().subscribe(() => (completedCycle = timer.getCycle()));
+
+      expect(timer.getRemainingCycles()).toBe(0);
+
+      timer.start();
+      expect(timer.getRemainingCycles()).toBe(3);
+      scheduler.flush();
+
+      expect(cycles).toEqual([
+        [0, 3],
+        [1, 2],
+        [2, 0],
+      ]);
+      expect(completedCycle).toBe(2);
+    });
+
+    it("should preserve the cycle across pause and resume", () => {
+      const timer = new RxTimer(50, { scheduler, continue: true, repeat: 3 });
+      let completeTime = -1;
+      timer.onComplete().subscribe(() => (completeTime = scheduler.now()));
+
+      timer.start();
+      scheduler.schedule(() => {
+        timer.pause();
+        expect(timer.getCycle()).toBe(1);
+        expect(timer.getRemainingCycles()).toBe(2);
+      }, 70);
+      scheduler.schedule(() => timer.resume(), 200);
+      scheduler.flush();
+
+      expect(completeTime).toBe(280);
+    });
+
+    it("should reset the cycle when stopped", () => {
+      const timer = new RxTimer(50, { scheduler, continue: true, repeat: 3 });
+      let completed = false;
+      timer.onComplete().subscribe(() => (completed = true));
+
+      timer.start();
+      scheduler.schedule(() => {
+        timer.stop();
+        expect(timer.getCycle()).toBe(0);
+      }, 70);
+      scheduler.flush();
+
+      expect(completed).toBe(false);
+    });
+
+    it("should report an infinite number of cycles without repeat", () => {
+      const timer = new RxTimer(50, { scheduler, continue: true });
+
+      timer.start();
+
+      expect(timer.getRemainingCycles()).toBe(Infinity);
+      timer.stop();
+    });
+  });
+
+  describe("testing onEventDetail", () => {
+    let scheduler: TestScheduler;
+
+    beforeEach(() => {
+      scheduler = createTestScheduler();
+    });
+
+    it("should emit the details of every event", () => {
+      const timer = new RxTimer(100, { scheduler });
+      const details: RxTimerEventDetail[] = [];
+      timer.onEventDetail().subscribe((detail) => details.push(detail));
+
+      timer.start();
+      scheduler.schedule(() => timer.pause(), 30);
+      scheduler.schedule(() => timer.resume(), 50);
+      scheduler.flush();
+
+      expect(details).toEqual([
+        {
+          type: RxTimerEvent.START,
+          at: 0,
+          remaining: 100,
+          elapsed: 0,
+          cycle: 0,
+        },
+        {
+          type: RxTimerEvent.PAUSE,
+          at: 30,
+          remaining: 70,
+          elapsed: 30,
+          cycle: 0,
+        },
+        {
+          type: RxTimerEvent.RESUME,
+          at: 50,
+          remaining: 70,
+          elapsed: 30,
+          cycle: 0,
+        },
+        {
+          type: RxTimerEvent.TICK,
+          at: 120,
+          remaining: 0,
+          elapsed: 100,
+          cycle: 0,
+        },
+      ]);
+    });
+
+    it("should report the remaining time and cycle when stopped", () => {
+      const timer = new RxTimer(100, { scheduler, continue: true });
+      const details: RxTimerEventDetail[] = [];
+      timer
+        .onEventDetail(RxTimerEvent.STOP)
+        .subscribe((detail) => details.push(detail));
+
+      timer.start();
+      scheduler.schedule(() => timer.stop(), 140);
+      scheduler.flush();
+
+      expect(details).toEqual([
+        {
+          type: RxTimerEvent.STOP,
+          at: 140,
+          remaining: 60,
+          elapsed: 40,
+          cycle: 1,
+        },
+      ]);
+    });
+
+    it("should report the cycle of every tick in continue mode", () => {
+      const timer = new RxTimer(50, { scheduler, continue: true, repeat: 3 });
+      const ticks: [number, number][] = [];
+      timer
+        .onEventDetail(RxTimerEvent.TICK)
+        .subscribe(({ remaining, cycle }) => ticks.push([remaining, cycle]));
+
+      timer.start();
+      scheduler.flush();
+
+      expect(ticks).toEqual([
+        [0, 0],
+        [0, 1],
+        [0, 2],
+      ]);
+    });
+
+    it("should keep emitting bare values from the event observables", () => {
+      const timer = new RxTimer(50, { scheduler });
+      const values: unknown[] = [];
+      timer.onStart().subscribe((value) => values.push(value));
+      timer.onTick().subscribe((value) => values.push(value));
+      timer.onEvent().subscribe((value) => values.push(value));
+
+      timer.start();
+      scheduler.flush();
+
+      expect(values).toEqual([
+        undefined,
+        RxTimerEvent.START,
+        undefined,
+        RxTimerEvent.TICK,
+      ]);
+    });
+  });
+
+  describe("testing addTime, subtractTime and setRemaining", () => {
+    let scheduler: TestScheduler;
+
+    beforeEach(() => {
+      scheduler = createTestScheduler();
+    });
+
+    it("should delay the tick when adding time while counting", () => {
+      const timer = new RxTimer(100, { scheduler });
+      const details: RxTimerEventDetail[] = [];
+      timer
+        .onEventDetail(RxTimerEvent.ADJUST)
+        .subscribe((detail) => details.push(detail));
+      let tickTime = -1;
+      timer.onTick().subscribe(() => (tickTime = scheduler.now()));
+
+      timer.start();
+      scheduler.schedule(() => timer.addTime(50), 30);
+      scheduler.flush();
+
+      expect(details).toEqual([
+        {
+          type: RxTimerEvent.ADJUST,
+          at: 30,
+          remaining: 120,
+          elapsed: 0,
+          cycle: 0,
+          adjustment: 50,
+        },
+      ]);
+      expect(tickTime).toBe(150);
+    });
+
+    it("should tick immediately when subtracting all the remaining time", () => {
+      const timer = new RxTimer(100, { scheduler });
+      const events = recordEvents(timer, scheduler);
+
+      timer.start();
+      scheduler.schedule(() => timer.subtractTime(500), 30);
+      scheduler.flush();
+
+      expect(events).toEqual([
+        [RxTimerEvent.START, 0],
+        [RxTimerEvent.ADJUST, 30],
+        [RxTimerEvent.TICK, 30],
+      ]);
+      expect(timer.isStopped()).toBe(true);
+    });
+
+    it("should keep the following cycles unchanged in continue mode", () => {
+      const timer = new RxTimer(50, { scheduler, continue: true, repeat: 3 });
+      const ticks: number[] = [];
+      timer.onTick().subscribe(() => ticks.push(scheduler.now()));
+
+      timer.start();
+      scheduler.schedule(() => timer.setRemaining(0), 20);
+      scheduler.flush();
+
+      expect(ticks).toEqual([20, 70, 120]);
+    });
+
+    it("should set the remaining time of a paused timer", () => {
+      const timer = new RxTimer(100, { scheduler });
+      let tickTime = -1;
+      timer.onTick().subscribe(() => (tickTime = scheduler.now()));
+
+      timer.start();
+      scheduler.schedule(() => timer.pause(), 30);
+      scheduler.schedule(() => {
+        timer.setRemaining(20);
+        expect(timer.isPaused()).toBe(true);
+        expect(timer.getRemainingMilliseconds()).toBe(20);
+      }, 40);
+      scheduler.schedule(() => timer.resume(), 50);
+      scheduler.flush();
+
+      expect(tickTime).toBe(70);
+    });
+
+    it("should tick immediately when a paused timer runs out of time", () => {
+      const timer = new RxTimer(100, { scheduler });
+      let tickTime = -1;
+      timer.onTick().subscribe(() => (tickTime = scheduler.now()));
+
+      timer.start();
+      scheduler.schedule(() => timer.pause(), 30);
+      scheduler.schedule(() => timer.subtractTime(70), 40);
+      scheduler.flush();
+
+      expect(tickTime).toBe(40);
+      expect(timer.isStopped()).toBe(true);
+    });
+
+    it("should not report a paused timer running out of time as counting", () => {
+      const timer = new RxTimer(100, { scheduler });
+      const statuses: RxTimerStatus[] = [];
+      timer.state$.subscribe((status) => statuses.push(status));
+
+      timer.start();
+      scheduler.schedule(() => timer.pause(), 30);
+      scheduler.schedule(() => timer.setRemaining(0), 40);
+      scheduler.flush();
+
+      expect(statuses).toEqual([
+        RxTimerStatus.IDLE,
+        RxTimerStatus.COUNTING,
+        RxTimerStatus.PAUSED,
+        RxTimerStatus.IDLE,
+      ]);
+    });
+
+    it("should keep the next cycle paused in continue mode", () => {
+      const timer = new RxTimer(50, { scheduler, continue: true });
+      const ticks: [number, number][] = [];
+      timer
+        .onEventDetail(RxTimerEvent.TICK)
+        .subscribe(({ at, cycle }) => ticks.push([at, cycle]));
+
+      timer.start();
+      scheduler.schedule(() => timer.pause(), 20);
+      scheduler.schedule(() => {
+        timer.setRemaining(0);
+        expect(timer.isPaused()).toBe(true);
+        expect(timer.getCycle()).toBe(1);
+        expect(timer.getRemainingMilliseconds()).toBe(50);
+        timer.stop();
+      }, 40);
+      scheduler.flush();
+
+      expect(ticks).toEqual([[40, 0]]);
+    });
+
+    it("should adjust the awaited cycle while waiting for beginTime", () => {
+      const timer = new RxTimer(100, { scheduler, beginTime: 100 });
+      const events = recordEvents(timer, scheduler);
+
+      timer.start();
+      scheduler.schedule(() => {
+        timer.addTime(50);
+        expect(timer.isStopped()).toBe(true);
+      }, 20);
+      scheduler.flush();
+
+      expect(events).toEqual([
+        [RxTimerEvent.SCHEDULED, 0],
+        [RxTimerEvent.ADJUST, 20],
+        [RxTimerEvent.START, 100],
+        [RxTimerEvent.TICK, 250],
+      ]);
+    });
+
+    it("should do nothing when the timer is stopped", () => {
+      const timer = new RxTimer(100, { scheduler });
+      const events: RxTimerEvent[] = [];
+      timer.onEvent().subscribe((e) => events.push(e));
+
+      timer.addTime(50);
+      timer.setRemaining(0);
+
+      expect(events).toEqual([]);
+      expect(timer.isStopped()).toBe(true);
+    });
+  });
+
+  describe("testing destroy", () => {
+    let scheduler: TestScheduler;
+
+    beforeEach(() => {
+      scheduler = createTestScheduler();
+    });
+
+    it("should release the countdown and complete the observables", () => {
+      const timer = new RxTimer(100, { scheduler });
+      const events: [RxTimerEvent, number][] = [];
+      let completed = false;
+      timer.onEvent().subscribe({
+        next: (e) => events.push([e, scheduler.now()]),
+        complete: () => (completed = true),
+      });
+      let progressCompleted = false;
+      timer.onProgress().subscribe({
+        complete: () => (progressCompleted = true),
+      });
+
+      timer.start();
+      scheduler.schedule(() => timer.destroy(), 30);
+      scheduler.flush();
+
+      expect(events).toEqual([
+        [RxTimerEvent.START, 0],
+        [RxTimerEvent.DESTROY, 30],
+      ]);
+      expect(completed).toBe(true);
+      expect(progressCompleted).toBe(true);
+      expect(timer.isDestroyed()).toBe(true);
+      expect(timer.isStopped()).toBe(true);
+    });
+
+    it("should release the wait for beginTime", () => {
+      const timer = new RxTimer(50, { scheduler, beginTime: 100 });
+      const events: RxTimerEvent[] = [];
+      timer.onEvent().subscribe((e) => events.push(e));
+
+      timer.start();
+      scheduler.schedule(() => timer.destroy(), 30);
+      scheduler.flush();
+
+      expect(events).toEqual([RxTimerEvent.SCHEDULED, RxTimerEvent.DESTROY]);
+      expect(timer.getNextRunTime()).toBe(-1);
+    });
+
+    it("should ignore further calls once destroyed", () => {
+      const timer = new RxTimer(100, { scheduler });
+      const events: RxTimerEvent[] = [];
+      timer.onEvent().subscribe((e) => events.push(e));
+
+      timer.start();
+      timer.pause();
+      timer.destroy();
+      timer.resume();
+      timer.stop();
+      timer.destroy();
+
+      expect(events).toEqual([
+        RxTimerEvent.START,
+        RxTimerEvent.PAUSE,
+        RxTimerEvent.DESTROY,
+      ]);
+      expect(() => timer.start()).toThrow();
+    });
+
+    it("should be destroyed when disposed", () => {
+      const timer = new RxTimer(100, { scheduler });
+
+      timer.start();
+      timer[Symbol.dispose]();
+
+      expect(timer.isDestroyed()).toBe(true);
+    });
+
+    it("should be destroyed when the signal is aborted", () => {
+      const controller = new AbortController();
+      const timer = new RxTimer(100, { scheduler, signal: controller.signal });
+      let tickTime = -1;
+      timer.onTick().subscribe(() => (tickTime = scheduler.now()));
+
+      timer.start();
+      scheduler.schedule(() => controller.abort(), 30);
+      scheduler.flush();
+
+      expect(tickTime).toBe(-1);
+      expect(timer.isDestroyed()).toBe(true);
+    });
+
+    it("should be destroyed right away by an aborted signal", () => {
+      const timer = new RxTimer(100, {
+        scheduler,
+        signal: AbortSignal.abort(),
+      });
+
+      expect(timer.isDestroyed()).toBe(true);
+    });
+  });
+
+  describe("testing state$", () => {
+    let scheduler: TestScheduler;
+
+    beforeEach(() => {
+      scheduler = createTestScheduler();
+    });
+
+    it("should emit every status transition", () => {
+      const timer = new RxTimer(50, { scheduler });
+      const statuses: [RxTimerStatus, number][] = [];
+      timer.state$.subscribe((s) => statuses.push([s, scheduler.now()]));
+
+      timer.start();
+      scheduler.schedule(() => timer.pause(), 20);
+      scheduler.schedule(() => timer.resume(), 30);
+      scheduler.flush();
+
+      expect(statuses).toEqual([
+        [RxTimerStatus.IDLE, 0],
+        [RxTimerStatus.COUNTING, 0],
+        [RxTimerStatus.PAUSED, 20],
+        [RxTimerStatus.COUNTING, 30],
+        [RxTimerStatus.IDLE, 60],
+      ]);
+    });
+
+    it("should become idle when a paused timer is stopped", () => {
+      const timer = new RxTimer(50, { scheduler });
+      const statuses: RxTimerStatus[] = [];
+      timer.state$.subscribe((s) => statuses.push(s));
+
+      timer.start();
+      timer.pause();
+      timer.stop();
+
+      expect(statuses).toEqual([
+        RxTimerStatus.IDLE,
+        RxTimerStatus.COUNTING,
+        RxTimerStatus.PAUSED,
+        RxTimerStatus.IDLE,
+      ]);
+      expect(timer.getStatus()).toBe(RxTimerStatus.IDLE);
+    });
+
+    it("should distinguish a scheduled timer from an idle one", () => {
+      const timer = new RxTimer(50, { scheduler, beginTime: 100 });
+      const statuses: [RxTimerStatus, number][] = [];
+      timer.state$.subscribe((s) => statuses.push([s, scheduler.now()]));
+
+      timer.start();
+      scheduler.schedule(() => {
+        expect(timer.isScheduled()).toBe(true);
+        expect(timer.isStopped()).toBe(true);
+        expect(timer.getMillisecondsUntilBegin()).toBe(70);
+      }, 30);
+      scheduler.flush();
+
+      expect(statuses).toEqual([
+        [RxTimerStatus.IDLE, 0],
+        [RxTimerStatus.SCHEDULED, 0],
+        [RxTimerStatus.COUNTING, 100],
+        [RxTimerStatus.IDLE, 150],
+      ]);
+      expect(timer.isScheduled()).toBe(false);
+      expect(timer.getMillisecondsUntilBegin()).toBe(0);
+    });
+
+    it("should be scheduled while waiting for the next scheduled time", () => {
+      const timer = new RxTimer(30 * 1000, { schedule: "0 * * * *" });
+      const statuses: RxTimerStatus[] = [];
+      timer.state$.subscribe((s) => statuses.push(s));
+
+      timer.start();
+      expect(timer.getMillisecondsUntilBegin()).toBeGreaterThan(0);
+      timer.stop();
+
+      expect(statuses).toEqual([
+        RxTimerStatus.IDLE,
+        RxTimerStatus.SCHEDULED,
+        RxTimerStatus.IDLE,
+      ]);
+    });
+
+    it("should complete once the timer is destroyed", () => {
+      const timer = new RxTimer(50, { scheduler });
+      let completed = false;
+      timer.state$.subscribe({ complete: () => (completed = true) });
+
+      timer.destroy();
+
+      expect(completed).toBe(true);
+    });
+  });
+
+  describe("testing SCHEDULED and SCHEDULE_CANCELLED events", () => {
+    let scheduler: TestScheduler;
+
+    beforeEach(() => {
+      scheduler = createTestScheduler();
+    });
+
+    it("should emit the begin time when waiting for beginTime", () => {
+      const timer = new RxTimer(50, { scheduler, beginTime: 100 });
+      const scheduled: [number, number][] = [];
+      timer
+        .onScheduled()
+        .subscribe((t) => scheduled.push([t, scheduler.now()]));
+
+      timer.start();
+      scheduler.flush();
+
+      expect(scheduled).toEqual([[100, 0]]);
+    });
+
+    it("should not emit SCHEDULED when beginTime has passed", () => {
+      const timer = new RxTimer(50, { scheduler, beginTime: 10 });
+      const events: RxTimerEvent[] = [];
+      timer.onEvent().subscribe((e) => events.push(e));
+
+      scheduler.schedule(() => timer.start(), 20);
+      scheduler.flush();
+
+      expect(events).toEqual([RxTimerEvent.START, RxTimerEvent.TICK]);
+    });
+
+    it("should emit SCHEDULE_CANCELLED when the wait is stopped", () => {
+      const timer = new RxTimer(50, { scheduler, beginTime: 100 });
+      const events = recordEvents(timer, scheduler);
+      let cancelTime = -1;
+      timer
+        .onScheduleCancelled()
+        .subscribe(() => (cancelTime = scheduler.now()));
+
+      timer.start();
+      scheduler.schedule(() => timer.stop(), 30);
+      scheduler.flush();
+
+      expect(events).toEqual([
+        [RxTimerEvent.SCHEDULED, 0],
+        [RxTimerEvent.SCHEDULE_CANCELLED, 30],
+      ]);
+      expect(cancelTime).toBe(30);
+      expect(timer.getStatus()).toBe(RxTimerStatus.IDLE);
+    });
+
+    it("should pause and resume the wait for beginTime", () => {
+      const timer = new RxTimer(50, { scheduler, beginTime: 100 });
+      const events = recordEvents(timer, scheduler);
+      const statuses: RxTimerStatus[] = [];
+      timer.state$.subscribe((s) => statuses.push(s));
+
+      timer.start();
+      scheduler.schedule(() => timer.pause(), 30);
+      scheduler.schedule(() => {
+        expect(timer.isPaused()).toBe(true);
+        expect(timer.isStopped()).toBe(false);
+        expect(timer.getMillisecondsUntilBegin()).toBe(70);
+        timer.resume();
+        expect(timer.getNextRunTime()).toBe(150);
+      }, 80);
+      scheduler.flush();
+
+      expect(events).toEqual([
+        [RxTimerEvent.SCHEDULED, 0],
+        [RxTimerEvent.PAUSE, 30],
+        [RxTimerEvent.RESUME, 80],
+        [RxTimerEvent.START, 150],
+        [RxTimerEvent.TICK, 200],
+      ]);
+      expect(statuses).toEqual([
+        RxTimerStatus.IDLE,
+        RxTimerStatus.SCHEDULED,
+        RxTimerStatus.PAUSED,
+        RxTimerStatus.SCHEDULED,
+        RxTimerStatus.COUNTING,
+        RxTimerStatus.IDLE,
+      ]);
+    });
+
+    it("should cancel a paused wait when stopped", () => {
+      const timer = new RxTimer(50, { scheduler, beginTime: 100 });
+      const events: RxTimerEvent[] = [];
+      timer.onEvent().subscribe((e) => events.push(e));
+
+      timer.start();
+      timer.pause();
+      timer.stop();
+      timer.resume();
+      scheduler.flush();
+
+      expect(events).toEqual([
+        RxTimerEvent.SCHEDULED,
+        RxTimerEvent.PAUSE,
+        RxTimerEvent.SCHEDULE_CANCELLED,
+      ]);
+      expect(timer.isStopped()).toBe(true);
+    });
+
+    it("should adjust the awaited cycle while the wait is paused", () => {
+      const timer = new RxTimer(50, { scheduler, beginTime: 100 });
+      const events: [RxTimerEvent, number, number][] = [];
+      timer
+        .onEventDetail()
+        .subscribe((e) => events.push([e.type, e.remaining, scheduler.now()]));
+
+      timer.start();
+      scheduler.schedule(() => timer.pause(), 30);
+      scheduler.schedule(() => timer.addTime(20), 40);
+      scheduler.schedule(() => timer.resume(), 80);
+      scheduler.flush();
+
+      expect(events).toEqual([
+        [RxTimerEvent.SCHEDULED, 0, 0],
+        [RxTimerEvent.PAUSE, 0, 30],
+        [RxTimerEvent.ADJUST, 70, 40],
+        [RxTimerEvent.RESUME, 0, 80],
+        [RxTimerEvent.START, 70, 150],
+        [RxTimerEvent.TICK, 0, 220],
+      ]);
+    });
+  });
+
+  describe("testing onDisplay", () => {
+    let scheduler: TestScheduler;
+
+    beforeEach(() => {
+      scheduler = createTestScheduler();
+    });
+
+    it("should emit only when the displayed text changes", () => {
+      const timer = new RxTimer(3000, { scheduler });
+      const displays: [string, number][] = [];
+      timer
+        .onDisplay("ss")
+        .subscribe((text) => displays.push([text, scheduler.now()]));
+
+      timer.start();
+      scheduler.maxFrames = 3000;
+      scheduler.flush();
+
+      expect(displays).toEqual([
+        ["00", 0],
+        ["03", 0],
+        ["02", 1000],
+        ["01", 2000],
+        ["00", 3000],
+      ]);
+    });
+
+    it("should round the elapsed time down", () => {
+      const timer = new RxTimer(3000, { scheduler });
+      const displays: [string, number][] = [];
+      timer
+        .onDisplay("s", { source: "elapsed", resolutionMs: 500 })
+        .subscribe((text) => displays.push([text, scheduler.now()]));
+
+      timer.start();
+      scheduler.maxFrames = 3000;
+      scheduler.schedule(() => timer.pause(), 1500);
+      scheduler.schedule(() => timer.stop(), 2000);
+      scheduler.flush();
+
+      expect(displays).toEqual([
+        ["0", 0],
+        ["1", 1000],
+        ["0", 2000],
+      ]);
+    });
+  });
+
+  describe("testing clock jumps", () => {
+    let scheduler: TestScheduler;
+    let wallShift: number;
+    let events: [RxTimerEvent, number][];
+
+    const createTimer = (duration: number, options: RxTimerOptions = {}) => {
+      const timer = new RxTimer(duration, {
+        scheduler,
+        clock: () => scheduler.now() + wallShift,
+        monotonicClock: () => scheduler.now(),
+        ...options,
+      });
+      recordEvents(timer, scheduler, events);
+      return timer;
+    };
+
+    beforeEach(() => {
+      scheduler = createTestScheduler();
+      scheduler.maxFrames = 20000;
+      wallShift = 0;
+      events = [];
+    });
+
+    it("should apply the jump to the remaining time by default", () => {
+      const timer = createTimer(10000);
+      const jumps: number[] = [];
+      timer.onClockJump().subscribe((jump) => jumps.push(jump));
+
+      timer.start();
+      scheduler.schedule(() => (wallShift = 3000), 1500);
+      scheduler.flush();
+
+      expect(jumps).toEqual([3000]);
+      expect(events).toEqual([
+        [RxTimerEvent.START, 0],
+        [RxTimerEvent.CLOCK_JUMP, 2000],
+        [RxTimerEvent.ADJUST, 2000],
+        [RxTimerEvent.TICK, 7000],
+      ]);
+    });
+
+    it("should not apply a backward jump to the remaining time by default", () => {
+      const timer = createTimer(10000);
+      const jumps: number[] = [];
+      timer.onClockJump().subscribe((jump) => jumps.push(jump));
+      let remaining = -1;
+
+      timer.start();
+      scheduler.schedule(() => (wallShift = -3000), 1500);
+      scheduler.schedule(
+        () => (remaining = timer.getRemainingMilliseconds()),
+        2500
+      );
+      scheduler.flush();
+
+      expect(jumps).toEqual([-3000]);
+      expect(remaining).toBe(7500);
+      expect(events).toEqual([
+        [RxTimerEvent.START, 0],
+        [RxTimerEvent.CLOCK_JUMP, 2000],
+        [RxTimerEvent.TICK, 10000],
+      ]);
+    });
+
+    it("should keep measuring the monotonic time with the 'ignore' policy", () => {
+      const timer = createTimer(10000, { clockJumpPolicy: "ignore" });
+      let remaining = -1;
+
+      timer.start();
+      scheduler.schedule(() => (wallShift = -3000), 1500);
+      scheduler.schedule(
+        () => (remaining = timer.getRemainingMilliseconds()),
+        2500
+      );
+      scheduler.flush();
+
+      expect(remaining).toBe(7500);
+      expect(events).toEqual([
+        [RxTimerEvent.START, 0],
+        [RxTimerEvent.CLOCK_JUMP, 2000],
+        [RxTimerEvent.TICK, 10000],
+      ]);
+    });
+
+    it("should tick immediately with the 'fire' policy", () => {
+      const timer = createTimer(10000, { clockJumpPolicy: "fire" });
+
+      timer.start();
+      scheduler.schedule(() => (wallShift = 3000), 1500);
+      scheduler.flush();
+
+      expect(events).toEqual([
+        [RxTimerEvent.START, 0],
+        [RxTimerEvent.CLOCK_JUMP, 2000],
+        [RxTimerEvent.ADJUST, 2000],
+        [RxTimerEvent.TICK, 2000],
+      ]);
+    });
+
+    it("should ignore divergences below the threshold", () => {
+      const timer = createTimer(10000, { clockJumpThreshold: 500 });
+
+      timer.start();
+      scheduler.schedule(() => (wallShift = 400), 1200);
+      scheduler.flush();
+
+      expect(events).toEqual([
+        [RxTimerEvent.START, 0],
+        [RxTimerEvent.TICK, 10000],
+      ]);
+    });
+
+    it("should wait for beginTime on the wall clock", () => {
+      const timer = createTimer(1000, {
+        beginTime: 5000,
+        clockJumpPolicy: "ignore",
+      });
+
+      timer.start();
+      scheduler.schedule(() => (wallShift = 3000), 1500);
+      scheduler.flush();
+
+      expect(events).toEqual([
+        [RxTimerEvent.SCHEDULED, 0],
+        [RxTimerEvent.CLOCK_JUMP, 2000],
+        [RxTimerEvent.START, 2000],
+        [RxTimerEvent.TICK, 3000],
+      ]);
+    });
+
+    it("should detect the jump when paused", () => {
+      const timer = createTimer(10000);
+
+      timer.start();
+      scheduler.schedule(() => (wallShift = 3000), 500);
+      scheduler.schedule(() => timer.pause(), 800);
+      scheduler.flush();
+
+      expect(timer.getRemainingMilliseconds()).toBe(6200);
+      expect(events).toEqual([
+        [RxTimerEvent.START, 0],
+        [RxTimerEvent.CLOCK_JUMP, 800],
+        [RxTimerEvent.ADJUST, 800],
+        [RxTimerEvent.PAUSE, 800],
+      ]);
+    });
+  });
+
+  describe("testing duration functions", () => {
+    let scheduler: TestScheduler;
+    let ticks: number[];
+
+    beforeEach(() => {
+      scheduler = createTestScheduler();
+      ticks = [];
+    });
+
+    it("should compute the duration of every cycle", () => {
+      const calls: [number, number][] = [];
+      const timer = new RxTimer(
+        (cycle, previous) => {
+          calls.push([cycle, previous]);
+          return (cycle + 1) * 100;
+        },
+        { scheduler, continue: true, repeat: 3 }
+      );
+      timer.onTick().subscribe(() => ticks.push(scheduler.now()));
+
+      timer.start();
+      scheduler.flush();
+
+      expect(ticks).toEqual([100, 300, 600]);
+      expect(calls).toEqual([
+        [0, -1],
+        [1, 100],
+        [2, 200],
+      ]);
+    });
+
+    it("should restart the durations after resetBackoff()", () => {
+      const timer = new RxTimer(exponentialBackoff(100), {
+        scheduler,
+        continue: true,
+        repeat: 4,
+      });
+      timer.onTick().subscribe(() => {
+        ticks.push(scheduler.now());
+        if (ticks.length === 2) timer.resetBackoff();
+      });
+
+      scheduler.maxFrames = 1000;
+      timer.start();
+      scheduler.flush();
+
+      // The cycle following the second tick was already resolved
+      expect(ticks).toEqual([100, 300, 700, 800]);
+    });
+
+    it("should keep backing off across restarts", () => {
+      const timer = new RxTimer(exponentialBackoff(100), { scheduler });
+      timer.onTick().subscribe(() => {
+        ticks.push(scheduler.now());
+        if (ticks.length < 3) timer.start();
+      });
+
+      timer.start();
+      scheduler.flush();
+
+      expect(ticks).toEqual([100, 300, 700]);
+    });
+
+    it("should report the duration of the next cycle upon every tick", () => {
+      const timer = new RxTimer(exponentialBackoff(100), {
+        scheduler,
+        continue: true,
+      });
+      const durations: number[] = [];
+      timer.onTick().subscribe(() => durations.push(timer.duration));
+
+      timer.start();
+      scheduler.schedule(() => timer.stop(), 350);
+      scheduler.flush();
+
+      expect(durations).toEqual([200, 400]);
+    });
+
+    it("should report the next cycle upon the tick of a paused or counting cycle", () => {
+      const timer = new RxTimer((cycle) => (cycle + 1) * 100, {
+        scheduler,
+        continue: true,
+      });
+      const remaining: number[] = [];
+      timer
+        .onTick()
+        .subscribe(() => remaining.push(timer.getRemainingMilliseconds()));
+
+      timer.start();
+      scheduler.schedule(() => timer.pause(), 150);
+      scheduler.schedule(() => timer.setRemaining(0), 160);
+      scheduler.schedule(() => timer.stop(), 170);
+      scheduler.flush();
+
+      expect(remaining).toEqual([200, 300]);
+    });
+  });
 });
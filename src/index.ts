@@ -1,6 +1,51 @@
-import { Observable, Subject } from "rxjs";
-import { filter, map } from "rxjs/operators";
+import {
+  BehaviorSubject,
+  EMPTY,
+  Observable,
+  SchedulerLike,
+  Subject,
+  asyncScheduler,
+  concat,
+  interval,
+  of,
+  timer,
+} from "rxjs";
+import {
+  distinctUntilChanged,
+  filter,
+  map,
+  startWith,
+  switchMap,
+} from "rxjs/operators";
+import { RxTimerCronExpression } from "./cron";
+import { RxTimerFormat, RxTimerFormatOptions, formatDuration } from "./format";
+import {
+  RxTimerSnapshot,
+  createTimerSnapshot,
+  restoreTimerSnapshot,
+} from "./timer-snapshot";
 import { RxTimerStableState, RxTimerState } from "./timer-state";
+import {
+  RxTimerThreshold,
+  RxTimerThresholdEvent,
+  watchTimerThreshold,
+} from "./timer-threshold";
+
+export * from "./backoff";
+export * from "./countdown";
+export { RxTimerCronExpression } from "./cron";
+export * from "./format";
+export * from "./game-clock";
+export * from "./timer-group";
+export * from "./timer-recorder";
+export * from "./timer-registry";
+export {
+  RxTimerSnapshot,
+  RxTimerSnapshotOptions,
+  RxTimerSnapshotState,
+} from "./timer-snapshot";
+export * from "./timer-sync";
+export { RxTimerThreshold } from "./timer-threshold";
 
 /** Enum representing timer events */
 export enum RxTimerEvent {
@@ -10,8 +55,91 @@ export enum RxTimerEvent {
   RESUME,
   RESET,
   TICK,
+  SCHEDULED,
+  MISSED,
+  COMPLETE,
+  ADJUST,
+  DESTROY,
+  SCHEDULE_CANCELLED,
+  CLOCK_JUMP,
+  WARNING,
+  MILESTONE,
+}
+
+/** Enum representing the status of a timer */
+export enum RxTimerStatus {
+  /** Stopped, or never started */
+  IDLE = "idle",
+  /** Waiting for `beginTime` or the next scheduled time */
+  SCHEDULED = "scheduled",
+  /** Counting down */
+  COUNTING = "counting",
+  /** Paused with time remaining */
+  PAUSED = "paused",
 }
 
+/** Additional details carried by some of the timer events */
+type RxTimerEventExtras = {
+  [RxTimerEvent.SCHEDULED]: {
+    /** Time at which the awaited cycle begins */
+    nextRunTime: number;
+  };
+  [RxTimerEvent.MISSED]: {
+    /** Number of skipped cycles */
+    missed: number;
+  };
+  [RxTimerEvent.ADJUST]: {
+    /** Change of the remaining time in milliseconds */
+    adjustment: number;
+  };
+  [RxTimerEvent.CLOCK_JUMP]: {
+    /** Shift of the wall clock against the monotonic clock in milliseconds */
+    jump: number;
+  };
+  [RxTimerEvent.MILESTONE]: {
+    /** Milestone of the `milestones` option crossed by the countdown */
+    milestone: RxTimerThreshold;
+  };
+};
+
+/** Details of a timer event of the given type */
+export type RxTimerEventDetailOf<T extends RxTimerEvent> = {
+  /** Type of the event */
+  type: T;
+  /** Time at which the event happened */
+  at: number;
+  /** Remaining time of the cycle when the event happened */
+  remaining: number;
+  /** Elapsed time of the cycle when the event happened */
+  elapsed: number;
+  /** Index of the cycle */
+  cycle: number;
+} & (T extends keyof RxTimerEventExtras ? RxTimerEventExtras[T] : {});
+
+/** Values reported by an emitted event instead of the current ones */
+type RxTimerEventOverrides = {
+  remaining?: number;
+  cycle?: number;
+  adjustment?: number;
+  jump?: number;
+  milestone?: RxTimerThreshold;
+};
+
+/** Details of any timer event */
+export type RxTimerEventDetail = {
+  [T in RxTimerEvent]: RxTimerEventDetailOf<T>;
+}[RxTimerEvent];
+
+/**
+ * Computes the duration of a countdown cycle in milliseconds.
+ * @param cycle The index of the cycle since the timer was created or 'resetBackoff()' was invoked
+ * @param previous The duration of the previous cycle, or -1 for the first one
+ */
+export type RxTimerDurationFunction = (
+  cycle: number,
+  previous: number
+) => number;
+
 /** Interface for timer options */
 export type RxTimerOptions = {
   /**
@@ -34,6 +162,51 @@ export type RxTimerOptions = {
    */
   continue?: boolean;
 
+  /**
+   * Limits the number of cycles of a timer with the `continue` option. After the
+   * 'Tick' event of the last cycle, the 'Complete' event is emitted and the timer
+   * stops.
+   *
+   * Example:
+   * ```typescript
+   * const timer = new RxTimer(1000, { continue: true, repeat: 3 });
+   *
+   * timer.onComplete().subscribe(() => {
+   *   // Receives the complete event after the third tick
+   * });
+   * timer.start();
+   * ```
+   */
+  repeat?: number;
+
+  /**
+   * Specifies how the following cycles are timed with the `continue` option.
+   *
+   * - `fixed-delay` (default): every cycle lasts `duration` milliseconds from the
+   * moment the previous tick was handled, so scheduler latency accumulates.
+   * - `fixed-rate`: every cycle ends at a multiple of `duration` from the first
+   * start, compensating for late ticks. When whole cycles are missed, e.g. after
+   * the event loop was blocked, they are skipped and reported by the 'Missed'
+   * event, unless `catchUp` is set.
+   *
+   * Example:
+   * ```typescript
+   * const timer = new RxTimer(1000, { continue: true, continueMode: 'fixed-rate' });
+   *
+   * timer.onMissed().subscribe((missed) => {
+   *   // Receives the number of skipped cycles after a stall
+   * });
+   * timer.start();
+   * ```
+   */
+  continueMode?: "fixed-rate" | "fixed-delay";
+
+  /**
+   * When set to true, a `fixed-rate` timer emits the 'Tick' event for every cycle
+   * missed during a stall instead of skipping them.
+   */
+  catchUp?: boolean;
+
   /**
    * Specifies the time in milliseconds when the timer should start counting down.
    * If the current time has already passed the specified `beginTime`, the timer
@@ -51,6 +224,178 @@ export type RxTimerOptions = {
    * ```
    */
   beginTime?: number;
+
+  /**
+   * Specifies the RxJS scheduler used for every delay the timer arms, including
+   * the countdown itself and the wait for `beginTime`. Defaults to `asyncScheduler`.
+   *
+   * Passing a `TestScheduler` or `VirtualTimeScheduler` allows the timer to run
+   * in virtual time. Unless a `clock` is provided, the scheduler's `now()` is also
+   * used as the time source.
+   *
+   * Example:
+   * ```typescript
+   * const scheduler = new TestScheduler((actual, expected) => {});
+   * const timer = new RxTimer(1000, { scheduler });
+   *
+   * timer.start();
+   * scheduler.flush(); // emits the tick without waiting a real second
+   * ```
+   */
+  scheduler?: SchedulerLike;
+
+  /**
+   * Specifies the function used to read the current time in milliseconds.
+   * Defaults to the `now()` of the configured scheduler.
+   *
+   * Example:
+   * ```typescript
+   * let now = 0;
+   * const timer = new RxTimer(1000, { clock: () => now });
+   *
+   * timer.start();
+   * now = 400;
+   * timer.getRemainingMilliseconds(); // 600
+   * ```
+   */
+  clock?: () => number;
+
+  /**
+   * Specifies the time in milliseconds at which the countdown ends. The remaining
+   * time is calculated against this fixed deadline instead of the `duration`,
+   * so every timer sharing the same `endTime` reaches zero at the same moment.
+   *
+   * When combined with `beginTime`, the timer waits for `beginTime` and then
+   * counts down to `endTime`. With `continue`, every following cycle lasts
+   * `duration` milliseconds and is anchored to the previous deadline.
+   *
+   * Example:
+   * ```typescript
+   * const endTime = new Date('2023-12-22T13:21:39+08:00').getTime();
+   * const timer = RxTimer.until(endTime);
+   *
+   * timer.onTick().subscribe(() => {
+   *   // Receives the tick event at 2023-12-22T13:21:39+08:00
+   * });
+   * timer.start();
+   * ```
+   */
+  endTime?: number;
+
+  /**
+   * Specifies a cron expression (minute, hour, day of month, month and day of week)
+   * at which the timer starts counting down. After every cycle the timer waits for
+   * the next matching time instead of stopping, until 'stop()' is invoked.
+   * When `beginTime` is also set, the first cycle starts at the first matching
+   * time after `beginTime`. The `continue` option has no effect on scheduled timers.
+   *
+   * Example:
+   * ```typescript
+   * const timer = new RxTimer(60 * 1000, { schedule: '0 9 * * MON-FRI' });
+   *
+   * timer.onTick().subscribe(() => {
+   *   // Receives a tick event at 09:01 every weekday
+   * });
+   * timer.start();
+   * ```
+   */
+  schedule?: string;
+
+  /**
+   * When set to true, pausing a timer with an `endTime` postpones the deadline by
+   * the paused time. By default the deadline stays fixed, so the time spent paused
+   * is lost, and resuming after the deadline has passed triggers the 'Tick' event
+   * immediately.
+   */
+  shiftEndTimeOnPause?: boolean;
+
+  /**
+   * Destroys the timer when the signal is aborted, as 'destroy()' does.
+   *
+   * Example:
+   * ```typescript
+   * const controller = new AbortController();
+   * const timer = new RxTimer(1000, { signal: controller.signal });
+   *
+   * timer.start();
+   * controller.abort(); // the timer is destroyed
+   * ```
+   */
+  signal?: AbortSignal;
+
+  /**
+   * Specifies the monotonic function used to measure the elapsed time, which
+   * is not affected by changes of the wall clock. Defaults to `performance.now()`
+   * unless a `scheduler` or a `clock` is provided, in which case the elapsed
+   * time is measured with the wall clock.
+   *
+   * The wall clock (`clock`) still applies to `beginTime`, `endTime` and `schedule`.
+   */
+  monotonicClock?: () => number;
+
+  /**
+   * Specifies how the timer handles a jump of the wall clock against the
+   * monotonic clock, e.g. after a laptop sleep or a change of the system time.
+   * The 'Clock Jump' event is emitted in every case.
+   *
+   * - 'ignore': The remaining time is measured with the monotonic clock only.
+   * - 'resync': A forward jump, e.g. after a sleep, is applied to the remaining
+   * time, as if the time had passed on the wall clock, while a backward jump is
+   * ignored so that the remaining time is never inflated (default).
+   * - 'fire': The current cycle ends immediately and the 'Tick' event is emitted.
+   *
+   * The wait for `beginTime` or the next scheduled time always follows the wall clock.
+   */
+  clockJumpPolicy?: "ignore" | "resync" | "fire";
+
+  /**
+   * Specifies the divergence in milliseconds between the wall clock and the
+   * monotonic clock considered as a jump (default 1000). The clocks are compared
+   * at this interval while the timer is counting or waiting, and whenever it's
+   * paused or resumed.
+   */
+  clockJumpThreshold?: number;
+
+  /**
+   * Specifies points of every countdown cycle at which the 'Milestone' event is
+   * emitted, as remaining times in milliseconds or as percentages of the cycle
+   * that are done. Every milestone is emitted once per cycle, also when it's
+   * skipped by an adjustment or reached by the end of the cycle.
+   *
+   * Example:
+   * ```typescript
+   * const timer = new RxTimer(60000, { milestones: [30000, { percent: 90 }] });
+   *
+   * timer.onMilestone().subscribe((milestone) => {
+   *   // Receives 30000 after 30 seconds, then { percent: 90 } after 54 seconds
+   * });
+   * timer.start();
+   * ```
+   */
+  milestones?: RxTimerThreshold[];
+};
+
+/** Progress of the current countdown cycle */
+export type RxTimerProgress = {
+  /** Remaining time of the cycle in milliseconds */
+  remaining: number;
+  /** Elapsed time of the cycle in milliseconds */
+  elapsed: number;
+  /** Completed fraction of the cycle, from 0 to 1 */
+  ratio: number;
+  /** Index of the cycle, starting from 0 */
+  cycle: number;
+};
+
+/** Options of the formatted display of a timer */
+export type RxTimerDisplayOptions = RxTimerFormatOptions & {
+  /**
+   * Time displayed: the remaining time (default, rounded up) or the elapsed time
+   * (rounded down) of the cycle
+   */
+  source?: "remaining" | "elapsed";
+  /** Sampling interval in milliseconds while the timer is counting (default 100) */
+  resolutionMs?: number;
 };
 
 /**
@@ -58,22 +403,142 @@ export type RxTimerOptions = {
  */
 export class RxTimer {
   /** Subject for timer events */
-  private event$: Subject<RxTimerEvent>;
+  private event$: Subject<RxTimerEventDetail>;
+  /**
+   * Emits every event once all the subscribers of `event$` received it, and the
+   * silent adjustments, to the threshold watchers
+   */
+  private settled$ = new Subject<RxTimerThresholdEvent>();
   /** State of the timer */
   private state: RxTimerState;
+  /** Subject for the status of the timer */
+  private status$ = new BehaviorSubject<RxTimerStatus>(RxTimerStatus.IDLE);
+  /** Emits the current status of the timer, then every change of it */
+  readonly state$: Observable<RxTimerStatus> = this.status$.pipe(
+    distinctUntilChanged()
+  );
+  /** Duration of the current countdown cycle */
+  duration: number;
   /** Remaining time in the countdown */
   remaining: number = 0;
   /** Start time of the timer */
   startTime: number = -1;
+  /** Index of the current countdown cycle */
+  cycle: number = 0;
+  /** Time at which the current countdown cycle ends */
+  deadline: number = -1;
+  /** Number of cycles skipped by the last 'Missed' event */
+  missed: number = 0;
+  /** Time at which the awaited cycle begins while waiting for it */
+  nextRunTime: number = -1;
+  /** Remaining time of the awaited cycle when adjusted while waiting for it */
+  pendingRemaining: number = -1;
+  /** Parsed `schedule` option */
+  private cronExpression: RxTimerCronExpression | null;
+  /** Whether the timer was destroyed */
+  private destroyed = false;
+  /** Listener destroying the timer when the `signal` option is aborted */
+  private handleAbort = (): void => this.destroy();
+  /** Monotonic clock measuring the elapsed time, or null to use the wall clock */
+  private monotonicClock: (() => number) | null;
+  /** Offset aligning the monotonic clock to the wall clock */
+  private clockOffset = 0;
+  /** Function computing the duration of every cycle, or null for a fixed duration */
+  private durationFunction: RxTimerDurationFunction | null;
+  /** Index of the next cycle passed to the duration function */
+  private durationCycle = 0;
 
-  constructor(public duration: number, public options: RxTimerOptions = {}) {
+  /**
+   * @param duration The duration of every cycle in milliseconds, or a function
+   * computing the duration of each cycle (e.g. 'exponentialBackoff()')
+   * @param options The timer options
+   */
+  constructor(
+    duration: number | RxTimerDurationFunction,
+    public options: RxTimerOptions = {}
+  ) {
+    this.durationFunction = typeof duration === "function" ? duration : null;
+    // A duration function is first invoked when the first cycle begins
+    this.duration = typeof duration === "function" ? 0 : duration;
     // Fill in defaults
     const defaultOptions: RxTimerOptions = { continue: false };
     this.options = { ...defaultOptions, ...this.options };
+    this.cronExpression = this.options.schedule
+      ? new RxTimerCronExpression(this.options.schedule)
+      : null;
+    this.monotonicClock = this.createMonotonicClock();
+    if (this.monotonicClock) {
+      this.clockOffset = this.wallNow() - this.monotonicClock();
+    }
 
     // initialize state
     this.state = new RxTimerStableState(this);
-    this.event$ = new Subject<RxTimerEvent>();
+    this.event$ = new Subject<RxTimerEventDetail>();
+    this.options.milestones?.forEach((milestone) => {
+      watchTimerThreshold(this, this.settled$, milestone, (remaining) =>
+        this.emitEvent(RxTimerEvent.MILESTONE, { remaining, milestone })
+      );
+    });
+
+    if (this.monotonicClock) {
+      // Compare the clocks while a cycle or the wait for it is pending
+      const { clockJumpThreshold = 1000 } = this.options;
+      this.state$
+        .pipe(
+          switchMap((status) =>
+            status === RxTimerStatus.COUNTING ||
+            status === RxTimerStatus.SCHEDULED
+              ? interval(clockJumpThreshold, this.scheduler)
+              : EMPTY
+          )
+        )
+        .subscribe(() => this.checkClock());
+    }
+
+    const { signal } = this.options;
+    if (signal?.aborted) {
+      this.destroy();
+    } else {
+      signal?.addEventListener("abort", this.handleAbort);
+    }
+  }
+
+  /**
+   * Creates a timer counting down to the given deadline. The duration of the
+   * timer is the time left until `endTime` when it's created.
+   * @param endTime The time in milliseconds at which the countdown ends
+   * @param options The timer options
+   * @returns {RxTimer} The timer counting down to `endTime`.
+   */
+  static until(endTime: number, options: RxTimerOptions = {}): RxTimer {
+    const rxTimer = new RxTimer(0, { ...options, endTime });
+    rxTimer.duration = Math.max(endTime - rxTimer.now(), 0);
+
+    return rxTimer;
+  }
+
+  /**
+   * Restores a timer from a snapshot created with 'toSnapshot()'. The time that
+   * passed since the snapshot was taken is compensated, and ticks that should have
+   * fired in the meantime are emitted asynchronously on the timer's scheduler.
+   * @param snapshot The snapshot to restore
+   * @param options The options that cannot be serialized: `scheduler`, `clock`, `monotonicClock` and `signal`
+   * @returns {RxTimer} The restored timer.
+   */
+  static fromSnapshot(
+    snapshot: RxTimerSnapshot,
+    options: Pick<
+      RxTimerOptions,
+      "scheduler" | "clock" | "monotonicClock" | "signal"
+    > = {}
+  ): RxTimer {
+    const rxTimer = new RxTimer(snapshot.duration, {
+      ...snapshot.options,
+      ...options,
+    });
+    restoreTimerSnapshot(rxTimer, snapshot);
+
+    return rxTimer;
   }
 
   /**
@@ -84,6 +549,10 @@ export class RxTimer {
    * @description Initiates the countdown based on the provided duration.
    */
   start(): void {
+    if (this.destroyed) {
+      throw new Error("Cannot start a destroyed timer");
+    }
+
     this.state.start();
   }
 
@@ -94,6 +563,7 @@ export class RxTimer {
    * @description Pauses the countdown if it's currently running.
    */
   pause(): void {
+    this.checkClock();
     this.state.pause();
   }
 
@@ -104,6 +574,7 @@ export class RxTimer {
    * @description Resumes the countdown if it's paused and not finished.
    */
   resume(): void {
+    this.checkClock();
     this.state.resume();
   }
 
@@ -129,6 +600,84 @@ export class RxTimer {
     this.state.stop();
   }
 
+  /**
+   * Destroys the timer: releases the ongoing countdown or wait for `beginTime`
+   * without emitting the 'Stop' event, emits the 'Destroy' event and completes
+   * every observable of the timer. A destroyed timer cannot be started again, and
+   * its other methods have no effect.
+   */
+  destroy(): void {
+    if (this.destroyed) return;
+
+    this.destroyed = true;
+    this.options.signal?.removeEventListener("abort", this.handleAbort);
+    this.state.destroy();
+    this.resetTimer();
+    this.setState(new RxTimerStableState(this));
+    this.emitEvent(RxTimerEvent.DESTROY);
+    this.event$.complete();
+    this.settled$.complete();
+    this.status$.complete();
+  }
+
+  /**
+   * Destroys the timer when it goes out of scope of a `using` declaration.
+   */
+  [Symbol.dispose](): void {
+    this.destroy();
+  }
+
+  /**
+   * Checks if the timer was destroyed.
+   * @returns {boolean} Returns true if the timer was destroyed; otherwise, returns false.
+   */
+  isDestroyed(): boolean {
+    return this.destroyed;
+  }
+
+  /**
+   * Extends the remaining time of the current cycle while the timer is counting,
+   * paused or waiting for `beginTime`, and emits the 'Adjust' event.
+   * @param ms The time to add in milliseconds
+   */
+  addTime(ms: number): void {
+    this.state.adjust((remaining) => remaining + ms);
+  }
+
+  /**
+   * Shortens the remaining time of the current cycle while the timer is counting,
+   * paused or waiting for `beginTime`, and emits the 'Adjust' event. When no time
+   * remains, the cycle completes and the 'Tick' event is emitted immediately.
+   * @param ms The time to subtract in milliseconds
+   */
+  subtractTime(ms: number): void {
+    this.state.adjust((remaining) => remaining - ms);
+  }
+
+  /**
+   * Sets the remaining time of the current cycle while the timer is counting,
+   * paused or waiting for `beginTime`, and emits the 'Adjust' event. When no time
+   * remains, the cycle completes and the 'Tick' event is emitted immediately.
+   * @param ms The remaining time in milliseconds
+   */
+  setRemaining(ms: number): void {
+    this.state.adjust(() => ms);
+  }
+
+  /**
+   * Sets the remaining time of the current cycle like 'setRemaining()', without
+   * emitting the 'Adjust' event.
+   * @param ms The remaining time in milliseconds
+   */
+  protected setRemainingSilently(ms: number): void {
+    this.state.adjust(() => ms, true);
+    // Thresholds are re-armed even though no event is emitted
+    this.settled$.next({
+      ...this.createEventDetail(RxTimerEvent.ADJUST, {}),
+      silent: true,
+    });
+  }
+
   /**
    * Checks if the timer is currently in a counting state.
    * @returns {boolean} Returns true if the timer is in the counting state; otherwise, returns false.
@@ -153,6 +702,24 @@ export class RxTimer {
     return this.state.isPaused();
   }
 
+  /**
+   * Checks if the timer is waiting for `beginTime` or the next scheduled time.
+   * @returns {boolean} Returns true if the timer is scheduled; otherwise, returns false.
+   *
+   * Note: A scheduled timer is also considered as 'stopped' by `isStopped()`.
+   */
+  isScheduled(): boolean {
+    return this.getStatus() === RxTimerStatus.SCHEDULED;
+  }
+
+  /**
+   * Retrieves the status of the timer.
+   * @returns {RxTimerStatus} The status of the timer.
+   */
+  getStatus(): RxTimerStatus {
+    return this.state.getStatus();
+  }
+
   /**
    * Retrieves the remaining time on the timer in milliseconds.
    * @returns {number} The remaining time on the timer.
@@ -164,11 +731,198 @@ export class RxTimer {
     return this.state.getRemainingMilliseconds();
   }
 
+  /**
+   * Retrieves the time elapsed in the current cycle in milliseconds.
+   * @returns {number} The elapsed time, or 0 if the timer is stopped.
+   */
+  getElapsedMilliseconds(): number {
+    if (this.isStopped()) return 0;
+
+    return this.createProgress(this.state.getRemainingMilliseconds()).elapsed;
+  }
+
+  /**
+   * Retrieves the time left until the awaited cycle begins in milliseconds. While
+   * the wait is paused, the time left when it was paused is retrieved.
+   * @returns {number} The time until the begin time, or 0 if the timer is not waiting.
+   */
+  getMillisecondsUntilBegin(): number {
+    return this.state.getMillisecondsUntilBegin();
+  }
+
+  /**
+   * Retrieves the index of the current cycle, starting from 0. Pausing the timer
+   * preserves the index, while stopping it resets the index.
+   * @returns {number} The index of the current cycle.
+   */
+  getCycle(): number {
+    return this.cycle;
+  }
+
+  /**
+   * Retrieves the number of cycles left to run, including the current one.
+   * @returns {number} The number of remaining cycles, 0 if the timer is stopped, or
+   * Infinity for a `continue` timer without the `repeat` option.
+   */
+  getRemainingCycles(): number {
+    if (this.isStopped()) return 0;
+
+    const { repeat } = this.options;
+    if (repeat !== undefined) return Math.max(repeat - this.cycle, 0);
+    return this.options.continue ? Infinity : 1;
+  }
+
+  /**
+   * Captures the state of the timer as plain JSON, which can be persisted and
+   * restored with 'RxTimer.fromSnapshot()'.
+   * - Note: The `scheduler` and `clock` options are not part of the snapshot, and
+   * a duration function is captured as the duration of the current cycle.
+   * @returns {RxTimerSnapshot} The snapshot of the timer.
+   */
+  toSnapshot(): RxTimerSnapshot {
+    return createTimerSnapshot(this);
+  }
+
+  /**
+   * Retrieves the time at which the next countdown cycle begins.
+   * @returns {number} The time in milliseconds, or -1 if no cycle is scheduled.
+   *
+   * Note: While a scheduled timer is counting or paused, the next cycle is calculated
+   * from the end of the current one.
+   */
+  getNextRunTime(): number {
+    if (this.nextRunTime >= 0) return this.nextRunTime;
+    if (!this.cronExpression || this.isStopped()) return -1;
+
+    return this.getBeginTime(this.wallNow() + this.getRemainingMilliseconds());
+  }
+
+  /**
+   * Calculates the time at which a cycle begins based on the `beginTime` and
+   * `schedule` options.
+   * @param after The time from which the next scheduled time is searched
+   * @returns {number} The begin time, or -1 if no begin time applies.
+   */
+  getBeginTime(after: number = this.wallNow()): number {
+    const { beginTime } = this.options;
+    if (!this.cronExpression) return beginTime || -1;
+
+    // A scheduled time exactly at `beginTime` is still a valid one
+    const from = beginTime ? Math.max(after, beginTime - 1) : after;
+    return this.cronExpression.next(from);
+  }
+
+  /**
+   * Restarts the durations computed by the duration function from the first
+   * cycle, e.g. once a retried operation succeeded. The current cycle keeps
+   * its duration, including a `continue` cycle resolved upon the 'Tick' event.
+   */
+  resetBackoff(): void {
+    this.durationCycle = 0;
+  }
+
+  /**
+   * Determines the duration of a cycle that begins, invoking the duration
+   * function if one was given.
+   * @returns {number} The duration of the cycle in milliseconds.
+   */
+  resolveCycleDuration(): number {
+    if (!this.durationFunction) return this.duration;
+
+    const previous = this.durationCycle === 0 ? -1 : this.duration;
+    this.duration = Math.max(
+      this.durationFunction(this.durationCycle, previous),
+      0
+    );
+    this.durationCycle++;
+
+    return this.duration;
+  }
+
+  /**
+   * Checks if the current cycle is the last one allowed by the `repeat` option.
+   * @returns {boolean} Returns true if no cycle follows the current one.
+   */
+  isLastCycle(): boolean {
+    const { repeat } = this.options;
+    return repeat !== undefined && this.cycle >= repeat - 1;
+  }
+
+  /**
+   * Scheduler used to arm every delay of the timer.
+   */
+  get scheduler(): SchedulerLike {
+    return this.options.scheduler || asyncScheduler;
+  }
+
+  /**
+   * Retrieves the current time in milliseconds, measured with the monotonic
+   * clock and aligned to the wall clock.
+   * @returns {number} The current time.
+   */
+  now(): number {
+    return this.monotonicClock
+      ? this.monotonicClock() + this.clockOffset
+      : this.wallNow();
+  }
+
+  /**
+   * Retrieves the current time in milliseconds from the configured wall clock.
+   * @returns {number} The current wall-clock time.
+   */
+  wallNow(): number {
+    return this.options.clock ? this.options.clock() : this.scheduler.now();
+  }
+
+  /**
+   * Compares the wall clock with the monotonic clock, and handles a divergence
+   * beyond `clockJumpThreshold` as a jump of the wall clock according to the
+   * `clockJumpPolicy` option.
+   */
+  checkClock(): void {
+    if (!this.monotonicClock) return;
+
+    const { clockJumpPolicy = "resync", clockJumpThreshold = 1000 } =
+      this.options;
+    const jump = this.wallNow() - this.now();
+    if (Math.abs(jump) < clockJumpThreshold) return;
+
+    // Realign the clocks, keeping the remaining time of the current cycle
+    const wasCounting = this.isCounting();
+    this.clockOffset += jump;
+    if (this.startTime >= 0) this.startTime += jump;
+    if (this.deadline >= 0) this.deadline += jump;
+    this.emitEvent(RxTimerEvent.CLOCK_JUMP, { jump });
+    this.state.resyncClock();
+
+    // A cycle beginning after the jump is not affected by it
+    if (!wasCounting || !this.isCounting()) return;
+    if (clockJumpPolicy === "resync") {
+      // Only a forward jump, e.g. a sleep, can be time that passed
+      if (jump > 0) this.subtractTime(jump);
+    } else if (clockJumpPolicy === "fire") {
+      this.setRemaining(0);
+    }
+  }
+
+  /**
+   * Creates the monotonic clock measuring the elapsed time, or returns null when
+   * the elapsed time is measured with the wall clock.
+   */
+  private createMonotonicClock(): (() => number) | null {
+    const { monotonicClock, scheduler, clock } = this.options;
+    if (monotonicClock) return monotonicClock;
+    if (scheduler || clock || typeof performance === "undefined") return null;
+
+    // Whole milliseconds, as measured by the wall clock and the scheduler
+    return () => Math.floor(performance.now());
+  }
+
   /**
    * Initializes the timer with current time and remaining duration.
    */
   initTimer(): void {
-    this.startTime = new Date().getTime();
+    this.startTime = this.now();
     this.remaining = this.duration;
   }
 
@@ -178,14 +932,22 @@ export class RxTimer {
   resetTimer(): void {
     this.remaining = 0;
     this.startTime = -1;
+    this.cycle = 0;
+    this.deadline = -1;
+    this.missed = 0;
+    this.pendingRemaining = -1;
   }
 
   /**
    * Emits a timer event.
    * @param event The timer event to emit
+   * @param detail The values to report when they differ from the current ones
+   * (e.g. the remaining time right before the timer was reset)
    */
-  emitEvent(event: RxTimerEvent): void {
-    this.event$.next(event);
+  emitEvent(event: RxTimerEvent, detail: RxTimerEventOverrides = {}): void {
+    const eventDetail = this.createEventDetail(event, detail);
+    this.event$.next(eventDetail);
+    this.settled$.next(eventDetail);
   }
 
   /**
@@ -196,21 +958,21 @@ export class RxTimer {
    */
   onStart(): Observable<void> {
     return this.event$.pipe(
-      filter((e) => e === RxTimerEvent.START),
+      filter((e) => e.type === RxTimerEvent.START),
       map(() => {})
     );
   }
 
   /**
    * Triggers an event to pause the timer upon 'pause()' invocation.
-   * - Note: Non-running timers won't receive this event upon 'pause()' invocation.
-   * For timers set with 'beginTime', pausing before the timer starts also won't trigger
-   * this event.
+   * - Note: Stopped timers won't receive this event upon 'pause()' invocation.
+   * For timers set with 'beginTime', pausing the wait before the timer starts also
+   * triggers this event.
    * @returns Observable<void>
    */
   onPause(): Observable<void> {
     return this.event$.pipe(
-      filter((e) => e === RxTimerEvent.PAUSE),
+      filter((e) => e.type === RxTimerEvent.PAUSE),
       map(() => {})
     );
   }
@@ -221,7 +983,7 @@ export class RxTimer {
    */
   onResume(): Observable<void> {
     return this.event$.pipe(
-      filter((e) => e === RxTimerEvent.RESUME),
+      filter((e) => e.type === RxTimerEvent.RESUME),
       map(() => {})
     );
   }
@@ -232,7 +994,7 @@ export class RxTimer {
    */
   onStop(): Observable<void> {
     return this.event$.pipe(
-      filter((e) => e === RxTimerEvent.STOP),
+      filter((e) => e.type === RxTimerEvent.STOP),
       map(() => {})
     );
   }
@@ -243,17 +1005,193 @@ export class RxTimer {
    */
   onTick(): Observable<void> {
     return this.event$.pipe(
-      filter((e) => e === RxTimerEvent.TICK),
+      filter((e) => e.type === RxTimerEvent.TICK),
+      map(() => {})
+    );
+  }
+
+  /**
+   * Triggers an event after the 'Tick' event of the last cycle of a timer with the
+   * `repeat` option.
+   * @returns Observable<void>
+   */
+  onComplete(): Observable<void> {
+    return this.event$.pipe(
+      filter((e) => e.type === RxTimerEvent.COMPLETE),
       map(() => {})
     );
   }
 
+  /**
+   * Triggers an event carrying the number of skipped cycles whenever a `fixed-rate`
+   * timer misses whole cycles, e.g. after the event loop was blocked.
+   * - Note: With the `catchUp` option, a 'Tick' event is emitted for every missed
+   * cycle instead.
+   * @returns Observable<number>
+   */
+  onMissed(): Observable<number> {
+    return this.onEventDetail(RxTimerEvent.MISSED).pipe(map((e) => e.missed));
+  }
+
+  /**
+   * Triggers an event carrying the time of the next cycle whenever the timer
+   * starts waiting for `beginTime` or the next scheduled time.
+   * @returns Observable<number>
+   */
+  onScheduled(): Observable<number> {
+    return this.onEventDetail(RxTimerEvent.SCHEDULED).pipe(
+      map((e) => e.nextRunTime)
+    );
+  }
+
+  /**
+   * Triggers an event when the wait for `beginTime` or the next scheduled time
+   * is cancelled by 'stop()' or 'reset()'.
+   * @returns Observable<void>
+   */
+  onScheduleCancelled(): Observable<void> {
+    return this.event$.pipe(
+      filter((e) => e.type === RxTimerEvent.SCHEDULE_CANCELLED),
+      map(() => {})
+    );
+  }
+
+  /**
+   * Triggers an event carrying the shift of the wall clock in milliseconds
+   * whenever it jumps against the monotonic clock, e.g. after a laptop sleep.
+   * @returns Observable<number>
+   */
+  onClockJump(): Observable<number> {
+    return this.onEventDetail(RxTimerEvent.CLOCK_JUMP).pipe(map((e) => e.jump));
+  }
+
+  /**
+   * Triggers an event carrying the remaining time once per cycle when the
+   * countdown crosses the threshold: a remaining time in milliseconds, or a
+   * percentage of the cycle that is done. A threshold skipped by an adjustment
+   * or reached by the end of the cycle is emitted as well.
+   * @param threshold The threshold, e.g. `30000` or `{ percent: 50 }`
+   * @returns Observable<number>
+   */
+  onThreshold(threshold: RxTimerThreshold): Observable<number> {
+    return new Observable<number>((subscriber) =>
+      watchTimerThreshold(this, this.settled$, threshold, (remaining) =>
+        subscriber.next(remaining)
+      )
+    );
+  }
+
+  /**
+   * Triggers an event carrying every milestone of the `milestones` option
+   * crossed by the countdown, once per cycle.
+   * @returns Observable<RxTimerThreshold>
+   */
+  onMilestone(): Observable<RxTimerThreshold> {
+    return this.onEventDetail(RxTimerEvent.MILESTONE).pipe(
+      map((e) => e.milestone)
+    );
+  }
+
+  /**
+   * Emits the progress of the countdown every `resolutionMs` milliseconds while
+   * the timer is counting. Nothing is emitted while the timer is paused, stopped
+   * or waiting for `beginTime`, and a final progress with 0 remaining is emitted
+   * upon every Tick. The sampling restarts with every Start, Resume and Tick, so
+   * that other events, e.g. adjustments or milestones, don't shift it.
+   * @param resolutionMs The sampling interval in milliseconds
+   * @returns Observable<RxTimerProgress>
+   */
+  onProgress(resolutionMs: number = 100): Observable<RxTimerProgress> {
+    return this.event$.pipe(
+      startWith(null),
+      filter(
+        (event) =>
+          !event ||
+          event.type === RxTimerEvent.START ||
+          event.type === RxTimerEvent.RESUME ||
+          event.type === RxTimerEvent.TICK ||
+          // Other events only end the sampling once the timer stopped counting
+          !this.isCounting()
+      ),
+      switchMap((event) => {
+        const completed$ =
+          event?.type === RxTimerEvent.TICK
+            ? of(this.createProgress(0))
+            : EMPTY;
+        const sampling$ = this.isCounting()
+          ? timer(0, resolutionMs, this.scheduler).pipe(
+              map(() =>
+                this.createProgress(this.state.getRemainingMilliseconds())
+              )
+            )
+          : EMPTY;
+
+        return concat(completed$, sampling$);
+      })
+    );
+  }
+
+  /**
+   * Emits the remaining or elapsed time of the cycle formatted with the given
+   * pattern or localized format, upon subscription and whenever the displayed
+   * text changes. A `mm:ss` display thus updates once per second.
+   * @param format The pattern or the options of a localized format (default 'mm:ss')
+   * @param options The displayed time, rounding, locale and sampling interval
+   * @returns Observable<string>
+   */
+  onDisplay(
+    format: RxTimerFormat = "mm:ss",
+    options: RxTimerDisplayOptions = {}
+  ): Observable<string> {
+    const {
+      source = "remaining",
+      resolutionMs = 100,
+      ...formatOptions
+    } = options;
+    const rounding =
+      formatOptions.rounding ?? (source === "remaining" ? "ceil" : "floor");
+
+    return this.event$.pipe(
+      startWith(null),
+      switchMap(() =>
+        this.isCounting() ? timer(0, resolutionMs, this.scheduler) : of(null)
+      ),
+      map(() =>
+        formatDuration(
+          source === "remaining"
+            ? this.getRemainingMilliseconds()
+            : this.getElapsedMilliseconds(),
+          format,
+          { ...formatOptions, rounding }
+        )
+      ),
+      distinctUntilChanged()
+    );
+  }
+
   /**
    * All events related to the timer's state transition can be listened to from here.
    * @returns Observable<RxTimerEventEnum>
    */
   onEvent(): Observable<RxTimerEvent> {
-    return this.event$.asObservable();
+    return this.event$.pipe(map((e) => e.type));
+  }
+
+  /**
+   * Same as 'onEvent()', but emits the details of every event: when it happened,
+   * the remaining and elapsed time of the cycle and the index of the cycle.
+   * When a type is given, only the events of that type are emitted.
+   * @param type The type of the events to listen to
+   * @returns Observable<RxTimerEventDetail>
+   */
+  onEventDetail(): Observable<RxTimerEventDetail>;
+  onEventDetail<T extends RxTimerEvent>(
+    type: T
+  ): Observable<RxTimerEventDetailOf<T>>;
+  onEventDetail(type?: RxTimerEvent): Observable<RxTimerEventDetail> {
+    return type === undefined
+      ? this.event$.asObservable()
+      : this.event$.pipe(filter((e) => e.type === type));
   }
 
   /**
@@ -262,5 +1200,62 @@ export class RxTimer {
    */
   setState(state: RxTimerState): void {
     this.state = state;
+    this.status$.next(state.getStatus());
+  }
+
+  /**
+   * Creates the details of a timer event.
+   * @param event The timer event
+   * @param detail The values to report instead of the current ones
+   */
+  private createEventDetail(
+    event: RxTimerEvent,
+    detail: RxTimerEventOverrides
+  ): RxTimerEventDetail {
+    const { remaining, elapsed } = this.createProgress(
+      detail.remaining ?? this.state.getRemainingMilliseconds()
+    );
+    const base = {
+      at: this.now(),
+      remaining,
+      elapsed,
+      cycle: detail.cycle ?? this.cycle,
+    };
+
+    switch (event) {
+      case RxTimerEvent.SCHEDULED:
+        return { type: event, ...base, nextRunTime: this.nextRunTime };
+      case RxTimerEvent.MISSED:
+        return { type: event, ...base, missed: this.missed };
+      case RxTimerEvent.ADJUST:
+        return { type: event, ...base, adjustment: detail.adjustment ?? 0 };
+      case RxTimerEvent.CLOCK_JUMP:
+        return { type: event, ...base, jump: detail.jump ?? 0 };
+      case RxTimerEvent.MILESTONE:
+        return { type: event, ...base, milestone: detail.milestone ?? 0 };
+      default:
+        return { type: event, ...base } as RxTimerEventDetail;
+    }
+  }
+
+  /**
+   * Creates the progress of the current cycle for the given remaining time.
+   * @param remaining The remaining time of the countdown in milliseconds
+   */
+  protected createProgress(remaining: number): RxTimerProgress {
+    remaining = Math.max(remaining, 0);
+    const elapsed = Math.max(this.duration - remaining, 0);
+
+    return {
+      remaining,
+      elapsed,
+      ratio: this.duration > 0 ? elapsed / this.duration : 1,
+      cycle: this.cycle,
+    };
   }
 }
+
+// Exported once RxTimer is defined, as these timers extend it
+export * from "./idle-timer";
+export * from "./interval-timer";
+export * from "./stopwatch";
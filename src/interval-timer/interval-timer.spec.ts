@@ -0,0 +1,132 @@
+import { TestScheduler } from "rxjs/testing";
+import {
+  RxIntervalPhaseChange,
+  RxIntervalTimer,
+  RxIntervalTimerOptions,
+  RxTimerEvent,
+} from "..";
+import { createTestScheduler, recordEvents } from "../test-helpers";
+
+describe("RxIntervalTimer", () => {
+  let scheduler: TestScheduler;
+  let phases: [RxIntervalPhaseChange, number][];
+
+  const createTimer = (options: RxIntervalTimerOptions = {}) => {
+    const timer = new RxIntervalTimer(
+      [
+        { name: "work", duration: 20 },
+        { name: "rest", duration: 10 },
+      ],
+      { scheduler, ...options }
+    );
+    timer.onPhaseChange().subscribe((p) => phases.push([p, scheduler.now()]));
+    return timer;
+  };
+
+  beforeEach(() => {
+    scheduler = createTestScheduler();
+    phases = [];
+  });
+
+  it("should run the warm-up, every round and the cool-down", () => {
+    const timer = createTimer({ rounds: 2, warmUp: 50, coolDown: 40 });
+    let completeTime = -1;
+    timer.onComplete().subscribe(() => (completeTime = scheduler.now()));
+
+    timer.start();
+    scheduler.flush();
+
+    expect(phases).toEqual([
+      [{ name: "warm-up", round: -1, remaining: 50 }, 0],
+      [{ name: "work", round: 0, remaining: 20 }, 50],
+      [{ name: "rest", round: 0, remaining: 10 }, 70],
+      [{ name: "work", round: 1, remaining: 20 }, 80],
+      [{ name: "rest", round: 1, remaining: 10 }, 100],
+      [{ name: "cool-down", round: -1, remaining: 40 }, 110],
+    ]);
+    expect(completeTime).toBe(150);
+    expect(timer.isStopped()).toBe(true);
+    expect(timer.getPhase()).toBeNull();
+  });
+
+  it("should report the remaining time of the phase and of the program", () => {
+    const timer = createTimer({ rounds: 2 });
+    const remaining: [number, number][] = [];
+
+    timer.start();
+    scheduler.schedule(() => {
+      remaining.push([
+        timer.getRemainingMilliseconds(),
+        timer.getRemainingMilliseconds("total"),
+      ]);
+    }, 25);
+    scheduler.flush();
+
+    expect(remaining).toEqual([[5, 35]]);
+    expect(timer.getRemainingMilliseconds("total")).toBe(0);
+  });
+
+  it("should pause and resume the whole program", () => {
+    const timer = createTimer();
+    const events = recordEvents(timer, scheduler);
+
+    timer.start();
+    scheduler.schedule(() => timer.pause(), 15);
+    scheduler.schedule(() => {
+      expect(timer.getPhase()).toEqual({
+        name: "work",
+        round: 0,
+        remaining: 5,
+      });
+      timer.resume();
+    }, 100);
+    scheduler.flush();
+
+    expect(events).toEqual([
+      [RxTimerEvent.START, 0],
+      [RxTimerEvent.PAUSE, 15],
+      [RxTimerEvent.RESUME, 100],
+      [RxTimerEvent.TICK, 105],
+      [RxTimerEvent.TICK, 115],
+      [RxTimerEvent.COMPLETE, 115],
+    ]);
+    expect(phases.map(([p, time]) => [p.name, time])).toEqual([
+      ["work", 0],
+      ["rest", 105],
+    ]);
+  });
+
+  it("should run the program from the first phase after a stop", () => {
+    const timer = createTimer({ warmUp: 50 });
+
+    timer.start();
+    scheduler.schedule(() => timer.stop(), 60);
+    scheduler.schedule(() => timer.start(), 100);
+    scheduler.flush();
+
+    expect(phases.map(([p, time]) => [p.name, time])).toEqual([
+      ["warm-up", 0],
+      ["work", 50],
+      ["warm-up", 100],
+      ["work", 150],
+      ["rest", 170],
+    ]);
+  });
+
+  it("should complete the phase changes when destroyed", () => {
+    const timer = createTimer();
+    let completed = false;
+    timer.onPhaseChange().subscribe({ complete: () => (completed = true) });
+
+    timer.start();
+    scheduler.schedule(() => timer.destroy(), 10);
+    scheduler.flush();
+
+    expect(completed).toBe(true);
+    expect(timer.getPhase()).toBeNull();
+  });
+
+  it("should throw an error for an empty program", () => {
+    expect(() => new RxIntervalTimer([], { rounds: 3 })).toThrow();
+  });
+});
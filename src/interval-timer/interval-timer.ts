@@ -0,0 +1,178 @@
+import { Observable, Subject } from "rxjs";
+import { RxTimer, RxTimerEvent, RxTimerOptions } from "..";
+
+/** Options of an interval timer */
+export type RxIntervalTimerOptions = Pick<
+  RxTimerOptions,
+  "scheduler" | "clock" | "signal"
+> & {
+  /** Number of times the phases are run (1 by default) */
+  rounds?: number;
+  /** Duration of the 'warm-up' phase before the first round (no warm-up by default) */
+  warmUp?: number;
+  /** Duration of the 'cool-down' phase after the last round (no cool-down by default) */
+  coolDown?: number;
+};
+
+/** Phase of the rounds of an interval timer, e.g. work or rest */
+export type RxIntervalPhase = {
+  /** Name of the phase */
+  name: string;
+  /** Duration of the phase in milliseconds */
+  duration: number;
+};
+
+/** Phase of the program of an interval timer */
+export type RxIntervalPhaseChange = {
+  /** Name of the phase */
+  name: string;
+  /** Index of the round, starting from 0, or -1 for the warm-up and cool-down */
+  round: number;
+  /** Remaining time of the phase in milliseconds */
+  remaining: number;
+};
+
+/** Phase of the program as run by the underlying timer */
+type RxIntervalStep = RxIntervalPhase & { round: number };
+
+/**
+ * Timer running a program of phases, e.g. for HIIT or Tabata workouts: an
+ * optional warm-up, the given phases repeated for every round, and an optional
+ * cool-down. Every phase is a cycle of the timer, so a single 'pause()',
+ * 'resume()' or 'stop()' controls the whole program, a TICK event is emitted at
+ * the end of every phase and the COMPLETE event at the end of the program.
+ */
+export class RxIntervalTimer extends RxTimer {
+  /** Number of times the phases are run */
+  readonly rounds: number;
+  /** Phases of the whole program, in order */
+  private readonly steps: RxIntervalStep[];
+  /** Subject for the phases of the program, emitted whenever a phase begins */
+  private phase$ = new Subject<RxIntervalPhaseChange>();
+  /** Index of the current phase in the program, or -1 if the timer is stopped */
+  private step = -1;
+
+  /**
+   * Creates an interval timer.
+   * @param phases The phases of every round
+   * @param options The options of the interval timer
+   */
+  constructor(phases: RxIntervalPhase[], options: RxIntervalTimerOptions = {}) {
+    const { rounds = 1, warmUp, coolDown, ...timerOptions } = options;
+    const steps = createIntervalSteps(phases, rounds, warmUp, coolDown);
+    if (steps.length === 0) {
+      throw new Error("RxIntervalTimer requires at least one phase");
+    }
+
+    super((cycle) => steps[cycle].duration, {
+      ...timerOptions,
+      continue: true,
+      repeat: steps.length,
+    });
+    this.rounds = rounds;
+    this.steps = steps;
+
+    this.onEventDetail().subscribe(({ type, cycle }) => {
+      switch (type) {
+        case RxTimerEvent.START:
+          this.beginStep(0);
+          break;
+        case RxTimerEvent.TICK:
+          this.beginStep(cycle + 1);
+          break;
+        case RxTimerEvent.STOP:
+        case RxTimerEvent.RESET:
+          this.endProgram();
+          break;
+        case RxTimerEvent.DESTROY:
+          this.endProgram();
+          this.phase$.complete();
+          break;
+      }
+    });
+  }
+
+  /**
+   * Retrieves the remaining time of the current phase, or of the whole program.
+   * @param scope 'phase' (default) for the current phase, or 'total' for the program
+   * @returns {number} The remaining time in milliseconds, or 0 if the timer is stopped.
+   */
+  getRemainingMilliseconds(scope: "phase" | "total" = "phase"): number {
+    const remaining = super.getRemainingMilliseconds();
+    if (scope === "phase" || this.step < 0) return remaining;
+
+    return this.steps
+      .slice(this.step + 1)
+      .reduce((total, { duration }) => total + duration, remaining);
+  }
+
+  /**
+   * Retrieves the current phase of the program.
+   * @returns {RxIntervalPhaseChange | null} The current phase, or null if the timer is stopped.
+   */
+  getPhase(): RxIntervalPhaseChange | null {
+    if (this.step < 0) return null;
+
+    const { name, round } = this.steps[this.step];
+    return { name, round, remaining: this.getRemainingMilliseconds() };
+  }
+
+  /**
+   * Triggers an event carrying the phase whenever a phase of the program begins.
+   * @returns Observable<RxIntervalPhaseChange>
+   */
+  onPhaseChange(): Observable<RxIntervalPhaseChange> {
+    return this.phase$.asObservable();
+  }
+
+  /**
+   * Moves to the given phase of the program and emits it, unless the program
+   * is over.
+   * @param step The index of the phase in the program
+   */
+  private beginStep(step: number): void {
+    if (step >= this.steps.length) {
+      this.endProgram();
+      return;
+    }
+
+    this.step = step;
+    const { name, round, duration } = this.steps[step];
+    this.phase$.next({ name, round, remaining: duration });
+  }
+
+  /**
+   * Leaves the current phase, so that the next run begins with the first phase.
+   */
+  private endProgram(): void {
+    this.step = -1;
+    this.resetBackoff();
+  }
+}
+
+/**
+ * Lays out the phases of the whole program, in order.
+ * @param phases The phases of every round
+ * @param rounds The number of rounds
+ * @param warmUp The duration of the warm-up, if any
+ * @param coolDown The duration of the cool-down, if any
+ */
+function createIntervalSteps(
+  phases: RxIntervalPhase[],
+  rounds: number,
+  warmUp?: number,
+  coolDown?: number
+): RxIntervalStep[] {
+  const steps: RxIntervalStep[] = [];
+  if (warmUp) {
+    steps.push({ name: "warm-up", duration: warmUp, round: -1 });
+  }
+  for (let round = 0; round < rounds; round++) {
+    phases.forEach((phase) => steps.push({ ...phase, round }));
+  }
+  if (coolDown) {
+    steps.push({ name: "cool-down", duration: coolDown, round: -1 });
+  }
+
+  return steps;
+}
@@ -0,0 +1,175 @@
+import { TestScheduler } from "rxjs/testing";
+import {
+  RxStopwatch,
+  RxStopwatchLap,
+  RxTimerEvent,
+  RxTimerEventDetail,
+  RxTimerProgress,
+} from "..";
+import { createTestScheduler, recordEvents } from "../test-helpers";
+
+describe("RxStopwatch", () => {
+  let scheduler: TestScheduler;
+
+  beforeEach(() => {
+    scheduler = createTestScheduler();
+  });
+
+  it("should count the elapsed time up", () => {
+    const stopwatch = new RxStopwatch({ scheduler });
+
+    expect(stopwatch.getElapsedMilliseconds()).toBe(0);
+
+    stopwatch.start();
+    scheduler.schedule(() => {
+      expect(stopwatch.getElapsedMilliseconds()).toBe(30);
+      stopwatch.pause();
+    }, 30);
+    scheduler.schedule(() => {
+      expect(stopwatch.getElapsedMilliseconds()).toBe(30);
+      stopwatch.resume();
+    }, 80);
+    scheduler.schedule(() => {
+      expect(stopwatch.getElapsedMilliseconds()).toBe(50);
+      stopwatch.stop();
+    }, 100);
+    scheduler.flush();
+
+    expect(stopwatch.getElapsedMilliseconds()).toBe(0);
+  });
+
+  it("should record the laps", () => {
+    const stopwatch = new RxStopwatch({ scheduler });
+    const laps: RxStopwatchLap[] = [];
+    stopwatch.onLap().subscribe((lap) => laps.push(lap));
+
+    stopwatch.start();
+    scheduler.schedule(() => stopwatch.lap(), 30);
+    scheduler.schedule(() => {
+      expect(stopwatch.split()).toEqual({
+        index: 1,
+        lap: 20,
+        total: 50,
+        at: 50,
+      });
+    }, 50);
+    scheduler.schedule(() => stopwatch.lap(), 70);
+    scheduler.schedule(() => stopwatch.stop(), 100);
+    scheduler.flush();
+
+    expect(laps).toEqual([
+      { index: 0, lap: 30, total: 30, at: 30 },
+      { index: 1, lap: 40, total: 70, at: 70 },
+    ]);
+    expect(stopwatch.getLaps()).toEqual(laps);
+    expect(stopwatch.lap()).toBe(null);
+  });
+
+  it("should clear the laps when started again", () => {
+    const stopwatch = new RxStopwatch({ scheduler });
+
+    stopwatch.start();
+    scheduler.schedule(() => stopwatch.lap(), 30);
+    scheduler.schedule(() => stopwatch.stop(), 40);
+    scheduler.schedule(() => {
+      expect(stopwatch.getLaps().length).toBe(1);
+      stopwatch.start();
+      expect(stopwatch.getLaps()).toEqual([]);
+      stopwatch.stop();
+    }, 50);
+    scheduler.flush();
+  });
+
+  it("should tick when the limit is reached", () => {
+    const stopwatch = new RxStopwatch({ scheduler, limit: 100 });
+    const events = recordEvents(stopwatch, scheduler);
+
+    stopwatch.start();
+    scheduler.schedule(() => {
+      expect(stopwatch.getRemainingMilliseconds()).toBe(70);
+    }, 30);
+    scheduler.flush();
+
+    expect(events).toEqual([
+      [RxTimerEvent.START, 0],
+      [RxTimerEvent.TICK, 100],
+    ]);
+    expect(stopwatch.isStopped()).toBe(true);
+  });
+
+  it("should display the elapsed time", () => {
+    const stopwatch = new RxStopwatch({ scheduler });
+    const display: [string, number][] = [];
+    stopwatch
+      .onDisplay()
+      .subscribe((text) => display.push([text, scheduler.now()]));
+
+    scheduler.maxFrames = 3000;
+    stopwatch.start();
+    scheduler.schedule(() => stopwatch.stop(), 2500);
+    scheduler.flush();
+
+    expect(display).toEqual([
+      ["00:00", 0],
+      ["00:01", 1000],
+      ["00:02", 2000],
+      ["00:00", 2500],
+    ]);
+  });
+
+  it("should report no remaining time without a limit", () => {
+    const stopwatch = new RxStopwatch({ scheduler });
+    const details: RxTimerEventDetail[] = [];
+    stopwatch.onEventDetail().subscribe((detail) => details.push(detail));
+    const progress: RxTimerProgress[] = [];
+    stopwatch.onProgress(50).subscribe((p) => progress.push(p));
+
+    stopwatch.start();
+    scheduler.schedule(() => {
+      expect(stopwatch.getRemainingMilliseconds()).toBe(-1);
+      stopwatch.pause();
+    }, 60);
+    scheduler.schedule(() => stopwatch.resume(), 100);
+    scheduler.schedule(() => stopwatch.stop(), 150);
+    scheduler.flush();
+
+    expect(
+      details.map(({ type, remaining, elapsed }) => [type, remaining, elapsed])
+    ).toEqual([
+      [RxTimerEvent.START, -1, 0],
+      [RxTimerEvent.PAUSE, -1, 60],
+      [RxTimerEvent.RESUME, -1, 60],
+      [RxTimerEvent.STOP, -1, 110],
+    ]);
+    expect(progress.slice(0, 2)).toEqual([
+      { remaining: -1, elapsed: 0, ratio: 0, cycle: 0 },
+      { remaining: -1, elapsed: 50, ratio: 0, cycle: 0 },
+    ]);
+  });
+
+  it("should report the time left until the limit", () => {
+    const stopwatch = new RxStopwatch({ scheduler, limit: 100 });
+    const details: RxTimerEventDetail[] = [];
+    stopwatch.onEventDetail().subscribe((detail) => details.push(detail));
+
+    stopwatch.start();
+    scheduler.schedule(() => stopwatch.pause(), 40);
+    scheduler.flush();
+
+    expect(stopwatch.getRemainingMilliseconds()).toBe(60);
+    expect(details.map(({ type, remaining }) => [type, remaining])).toEqual([
+      [RxTimerEvent.START, 100],
+      [RxTimerEvent.PAUSE, 60],
+    ]);
+  });
+
+  it("should complete the laps when destroyed", () => {
+    const stopwatch = new RxStopwatch({ scheduler });
+    let completed = false;
+    stopwatch.onLap().subscribe({ complete: () => (completed = true) });
+
+    stopwatch.destroy();
+
+    expect(completed).toBe(true);
+  });
+});
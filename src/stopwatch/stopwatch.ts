@@ -0,0 +1,140 @@
+import { Observable, Subject } from "rxjs";
+import {
+  RxTimer,
+  RxTimerDisplayOptions,
+  RxTimerFormat,
+  RxTimerOptions,
+  RxTimerProgress,
+} from "..";
+
+/** Options of a stopwatch */
+export type RxStopwatchOptions = Pick<RxTimerOptions, "scheduler" | "clock"> & {
+  /** Elapsed time at which the stopwatch ticks and stops (unlimited by default) */
+  limit?: number;
+};
+
+/** Lap or split time of a stopwatch */
+export type RxStopwatchLap = {
+  /** Index of the lap, starting from 0 */
+  index: number;
+  /** Time elapsed since the previous lap in milliseconds */
+  lap: number;
+  /** Time elapsed since the stopwatch started in milliseconds */
+  total: number;
+  /** Time at which the lap was taken */
+  at: number;
+};
+
+/**
+ * Timer counting the elapsed time up, with the same start, pause, resume and
+ * stop semantics as a countdown. Starting the stopwatch clears the laps of the
+ * previous run. The remaining time, of the stopwatch and of its events and
+ * progress, is the time left until the limit, or -1 without a limit.
+ */
+export class RxStopwatch extends RxTimer {
+  /** Elapsed time at which the stopwatch ticks and stops, or -1 without a limit */
+  readonly limit: number;
+  /** Subject for recorded laps */
+  private lap$ = new Subject<RxStopwatchLap>();
+  /** Laps recorded since the stopwatch started */
+  private laps: RxStopwatchLap[] = [];
+
+  /**
+   * Creates a stopwatch.
+   * @param options The options of the stopwatch
+   */
+  constructor(options: RxStopwatchOptions = {}) {
+    const { limit, ...timerOptions } = options;
+    // Without a limit, the stopwatch counts down from the largest safe duration
+    super(limit ?? Number.MAX_SAFE_INTEGER, timerOptions);
+    this.limit = limit ?? -1;
+    this.onStart().subscribe(() => (this.laps = []));
+  }
+
+  /**
+   * Retrieves the time left until the limit in milliseconds.
+   * @returns {number} The time left until the limit, or -1 without a limit.
+   */
+  getRemainingMilliseconds(): number {
+    return this.createProgress(super.getRemainingMilliseconds()).remaining;
+  }
+
+  /**
+   * Emits the elapsed time, by default, formatted with the given pattern or
+   * localized format, upon subscription and whenever the displayed text changes.
+   * @param format The pattern or the options of a localized format (default 'mm:ss')
+   * @param options The displayed time ('elapsed' by default), rounding, locale and sampling interval
+   * @returns Observable<string>
+   */
+  onDisplay(
+    format: RxTimerFormat = "mm:ss",
+    options: RxTimerDisplayOptions = {}
+  ): Observable<string> {
+    return super.onDisplay(format, { source: "elapsed", ...options });
+  }
+
+  /**
+   * Destroys the stopwatch, as 'RxTimer.destroy()' does, and completes 'onLap()'.
+   */
+  destroy(): void {
+    super.destroy();
+    this.lap$.complete();
+  }
+
+  /**
+   * Records a lap and emits it to the 'onLap()' subscribers.
+   * @returns {RxStopwatchLap | null} The recorded lap, or null if the stopwatch is stopped.
+   */
+  lap(): RxStopwatchLap | null {
+    const lap = this.split();
+    if (!lap) return null;
+
+    this.laps.push(lap);
+    this.lap$.next(lap);
+    return lap;
+  }
+
+  /**
+   * Retrieves the current lap time and total time without recording a lap.
+   * @returns {RxStopwatchLap | null} The current split, or null if the stopwatch is stopped.
+   */
+  split(): RxStopwatchLap | null {
+    if (this.isStopped()) return null;
+
+    const total = this.getElapsedMilliseconds();
+    const previous = this.laps[this.laps.length - 1];
+    return {
+      index: this.laps.length,
+      lap: total - (previous?.total ?? 0),
+      total,
+      at: this.now(),
+    };
+  }
+
+  /**
+   * Retrieves the laps recorded since the stopwatch started.
+   * @returns {RxStopwatchLap[]} The recorded laps.
+   */
+  getLaps(): RxStopwatchLap[] {
+    return [...this.laps];
+  }
+
+  /**
+   * Triggers an event carrying every recorded lap.
+   * @returns Observable<RxStopwatchLap>
+   */
+  onLap(): Observable<RxStopwatchLap> {
+    return this.lap$.asObservable();
+  }
+
+  /**
+   * Creates the progress of the current run for the given remaining time of the
+   * underlying countdown, whose remaining time and ratio have no meaning without
+   * a limit.
+   * @param remaining The remaining time of the countdown in milliseconds
+   */
+  protected createProgress(remaining: number): RxTimerProgress {
+    const progress = super.createProgress(remaining);
+    return this.limit < 0 ? { ...progress, remaining: -1, ratio: 0 } : progress;
+  }
+}
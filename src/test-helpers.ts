@@ -0,0 +1,20 @@
+import { Observable } from "rxjs";
+import { TestScheduler } from "rxjs/testing";
+import { RxTimerEvent } from ".";
+
+/** Creates a scheduler that runs the timers in virtual time */
+export const createTestScheduler = () =>
+  new TestScheduler((actual, expected) => expect(actual).toEqual(expected));
+
+/**
+ * Records the events of a timer or group along with the virtual time they
+ * were emitted at
+ */
+export const recordEvents = (
+  source: { onEvent(): Observable<RxTimerEvent> },
+  scheduler: TestScheduler,
+  events: [RxTimerEvent, number][] = []
+) => {
+  source.onEvent().subscribe((e) => events.push([e, scheduler.now()]));
+  return events;
+};
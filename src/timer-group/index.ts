@@ -0,0 +1,4 @@
+export * from "./timer-group";
+export * from "./timer-parallel";
+export * from "./timer-race";
+export * from "./timer-sequence";
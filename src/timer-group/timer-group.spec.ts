@@ -0,0 +1,284 @@
+import { TestScheduler } from "rxjs/testing";
+import {
+  RxTimer,
+  RxTimerEvent,
+  RxTimerGroupChildEvent,
+  RxTimerParallel,
+  RxTimerRace,
+  RxTimerSequence,
+} from "..";
+import { createTestScheduler, recordEvents } from "../test-helpers";
+
+describe("RxTimerGroup", () => {
+  let scheduler: TestScheduler;
+  let events: [RxTimerEvent, number][];
+
+  const createTimers = (...durations: number[]) =>
+    durations.map((duration) => new RxTimer(duration, { scheduler }));
+
+  beforeEach(() => {
+    scheduler = createTestScheduler();
+    events = [];
+  });
+
+  describe("RxTimerSequence", () => {
+    it("should run the timers one after another", () => {
+      const sequence = new RxTimerSequence(createTimers(50, 30, 20));
+      const active: number[] = [];
+      recordEvents(sequence, scheduler, events);
+      sequence.onActiveChange().subscribe(() => {
+        active.push(sequence.getActiveIndex());
+      });
+
+      sequence.start();
+      scheduler.flush();
+
+      expect(events).toEqual([
+        [RxTimerEvent.START, 0],
+        [RxTimerEvent.TICK, 100],
+      ]);
+      expect(active).toEqual([0, 1, 2, -1]);
+      expect(sequence.isStopped()).toBe(true);
+    });
+
+    it("should aggregate the remaining time", () => {
+      const sequence = new RxTimerSequence(createTimers(50, 30, 20));
+
+      sequence.start();
+      scheduler.schedule(() => {
+        expect(sequence.getRemainingMilliseconds()).toBe(90);
+      }, 10);
+      scheduler.schedule(() => {
+        expect(sequence.getActiveIndex()).toBe(1);
+        expect(sequence.getRemainingMilliseconds()).toBe(40);
+      }, 60);
+      scheduler.flush();
+
+      expect(sequence.getRemainingMilliseconds()).toBe(0);
+    });
+
+    it("should pause and resume the active timer", () => {
+      const sequence = new RxTimerSequence(createTimers(50, 30));
+      recordEvents(sequence, scheduler, events);
+
+      sequence.start();
+      scheduler.schedule(() => {
+        sequence.pause();
+        expect(sequence.isPaused()).toBe(true);
+        expect(sequence.isCounting()).toBe(false);
+      }, 60);
+      scheduler.schedule(() => sequence.resume(), 100);
+      scheduler.flush();
+
+      expect(events).toEqual([
+        [RxTimerEvent.START, 0],
+        [RxTimerEvent.PAUSE, 60],
+        [RxTimerEvent.RESUME, 100],
+        [RxTimerEvent.TICK, 120],
+      ]);
+    });
+
+    it("should stop the active timer and not start the following ones", () => {
+      const timers = createTimers(50, 30);
+      const sequence = new RxTimerSequence(timers);
+      const childEvents: RxTimerGroupChildEvent[] = [];
+      recordEvents(sequence, scheduler, events);
+      sequence.onChildEvent().subscribe((e) => childEvents.push(e));
+
+      sequence.start();
+      scheduler.schedule(() => sequence.stop(), 20);
+      scheduler.flush();
+
+      expect(events).toEqual([
+        [RxTimerEvent.START, 0],
+        [RxTimerEvent.STOP, 20],
+      ]);
+      expect(childEvents.map((e) => [e.index, e.event])).toEqual([
+        [0, RxTimerEvent.START],
+        [0, RxTimerEvent.STOP],
+      ]);
+      expect(timers[1].isStopped()).toBe(true);
+    });
+
+    it("should pause and resume an active timer waiting for its beginTime", () => {
+      const timers = [
+        new RxTimer(100, { scheduler, beginTime: 50 }),
+        new RxTimer(30, { scheduler }),
+      ];
+      const sequence = new RxTimerSequence(timers);
+      recordEvents(sequence, scheduler, events);
+
+      sequence.start();
+      scheduler.schedule(() => {
+        expect(sequence.isCounting()).toBe(true);
+        expect(sequence.isPaused()).toBe(false);
+        sequence.resume();
+        sequence.pause();
+        expect(timers[0].isPaused()).toBe(true);
+      }, 20);
+      scheduler.schedule(() => sequence.resume(), 40);
+      scheduler.flush();
+
+      expect(events).toEqual([
+        [RxTimerEvent.START, 0],
+        [RxTimerEvent.PAUSE, 20],
+        [RxTimerEvent.RESUME, 40],
+        [RxTimerEvent.TICK, 200],
+      ]);
+    });
+
+    it("should stop when the active timer is stopped outside of the group", () => {
+      const timers = createTimers(50, 30);
+      const sequence = new RxTimerSequence(timers);
+      recordEvents(sequence, scheduler, events);
+
+      sequence.start();
+      scheduler.schedule(() => timers[0].pause(), 10);
+      scheduler.schedule(() => timers[0].stop(), 20);
+      scheduler.flush();
+
+      expect(events).toEqual([
+        [RxTimerEvent.START, 0],
+        [RxTimerEvent.STOP, 20],
+      ]);
+      expect(sequence.isStopped()).toBe(true);
+      expect(sequence.isPaused()).toBe(false);
+      expect(timers[1].isStopped()).toBe(true);
+    });
+
+    it("should move on from a timer with the continue option", () => {
+      const timers = [
+        new RxTimer(50, { scheduler, continue: true }),
+        new RxTimer(30, { scheduler }),
+      ];
+      const sequence = new RxTimerSequence(timers);
+      sequence.onTick().subscribe(() => events.push([RxTimerEvent.TICK, 0]));
+
+      sequence.start();
+      scheduler.flush();
+
+      expect(events.length).toBe(1);
+      expect(timers[0].isStopped()).toBe(true);
+    });
+  });
+
+  describe("RxTimerParallel", () => {
+    it("should finish once every timer ticked", () => {
+      const parallel = new RxTimerParallel(createTimers(50, 80, 20));
+      const active: number[][] = [];
+      recordEvents(parallel, scheduler, events);
+      parallel.onActiveChange().subscribe((indexes) => active.push(indexes));
+
+      parallel.start();
+      scheduler.schedule(() => {
+        expect(parallel.getRemainingMilliseconds()).toBe(70);
+      }, 10);
+      scheduler.flush();
+
+      expect(events).toEqual([
+        [RxTimerEvent.START, 0],
+        [RxTimerEvent.TICK, 80],
+      ]);
+      expect(active).toEqual([[0, 1, 2], [0, 1], [1], []]);
+    });
+
+    it("should finish without a timer destroyed outside of the group", () => {
+      const timers = createTimers(50, 80, 20);
+      const parallel = new RxTimerParallel(timers);
+      const active: number[][] = [];
+      recordEvents(parallel, scheduler, events);
+      parallel.onActiveChange().subscribe((indexes) => active.push(indexes));
+
+      parallel.start();
+      scheduler.schedule(() => timers[1].destroy(), 30);
+      scheduler.flush();
+
+      expect(events).toEqual([
+        [RxTimerEvent.START, 0],
+        [RxTimerEvent.TICK, 50],
+      ]);
+      expect(active).toEqual([[0, 1, 2], [0, 1], [0], []]);
+    });
+
+    it("should pause and resume every running timer", () => {
+      const timers = createTimers(50, 80);
+      const parallel = new RxTimerParallel(timers);
+      parallel
+        .onTick()
+        .subscribe(() => events.push([RxTimerEvent.TICK, scheduler.now()]));
+
+      parallel.start();
+      scheduler.schedule(() => {
+        parallel.pause();
+        expect(timers.every((timer) => timer.isPaused())).toBe(true);
+      }, 10);
+      scheduler.schedule(() => parallel.resume(), 110);
+      scheduler.flush();
+
+      expect(events).toEqual([[RxTimerEvent.TICK, 180]]);
+    });
+  });
+
+  describe("RxTimerRace", () => {
+    it("should finish with the first tick and stop the other timers", () => {
+      const timers = createTimers(50, 30, 80);
+      const race = new RxTimerRace(timers);
+      recordEvents(race, scheduler, events);
+
+      race.start();
+      scheduler.schedule(() => {
+        expect(race.getRemainingMilliseconds()).toBe(20);
+      }, 10);
+      scheduler.flush();
+
+      expect(events).toEqual([
+        [RxTimerEvent.START, 0],
+        [RxTimerEvent.TICK, 30],
+      ]);
+      expect(race.getWinnerIndex()).toBe(1);
+      expect(timers.every((timer) => timer.isStopped())).toBe(true);
+    });
+
+    it("should not have a winner when stopped", () => {
+      const race = new RxTimerRace(createTimers(50, 30));
+
+      race.start();
+      scheduler.schedule(() => race.stop(), 10);
+      scheduler.flush();
+
+      expect(race.getWinnerIndex()).toBe(-1);
+      expect(race.isStopped()).toBe(true);
+    });
+  });
+
+  describe("destroy", () => {
+    it("should stop the timers and release the subscriptions to them", () => {
+      const timers = createTimers(50, 30);
+      const sequence = new RxTimerSequence(timers);
+      const childEvents: RxTimerGroupChildEvent[] = [];
+      let completed = false;
+      sequence.onEvent().subscribe({
+        next: (e) => events.push([e, scheduler.now()]),
+        complete: () => (completed = true),
+      });
+      sequence.onChildEvent().subscribe((e) => childEvents.push(e));
+
+      sequence.start();
+      scheduler.schedule(() => sequence.destroy(), 20);
+      scheduler.schedule(() => timers[1].start(), 30);
+      scheduler.flush();
+
+      expect(events).toEqual([
+        [RxTimerEvent.START, 0],
+        [RxTimerEvent.DESTROY, 20],
+      ]);
+      expect(completed).toBe(true);
+      expect(childEvents.map((e) => [e.index, e.event])).toEqual([
+        [0, RxTimerEvent.START],
+      ]);
+      expect(timers[0].isStopped()).toBe(true);
+      expect(sequence.isDestroyed()).toBe(true);
+      expect(() => sequence.start()).toThrow();
+    });
+  });
+});
@@ -0,0 +1,333 @@
+import { Observable, Subject, Subscription, merge } from "rxjs";
+import { filter, map } from "rxjs/operators";
+import { RxTimer, RxTimerEvent, RxTimerStatus } from "..";
+
+/** Event emitted by a timer of a group */
+export type RxTimerGroupChildEvent = {
+  /** Index of the timer in the group */
+  index: number;
+  /** Timer emitting the event */
+  timer: RxTimer;
+  /** The emitted event */
+  event: RxTimerEvent;
+};
+
+/**
+ * Base class of the timer compositions. A group controls its timers with the
+ * same API as a single RxTimer and emits START, PAUSE, RESUME, STOP, TICK and
+ * DESTROY events for the group as a whole. A timer stopped or destroyed outside
+ * of the group leaves it, and the group stops once none of its timers is active.
+ */
+export abstract class RxTimerGroup {
+  /** Subject for group events */
+  private event$ = new Subject<RxTimerEvent>();
+  /** Subject for the events of the timers of the group */
+  private childEvent$ = new Subject<RxTimerGroupChildEvent>();
+  /** Subject for changes of the active timers */
+  private activeChange$ = new Subject<number[]>();
+  /** Indexes of the timers currently running or paused in the group */
+  private active: number[] = [];
+  /** Subscription to the events of the timers of the group */
+  private subscription: Subscription;
+  /** Whether the group itself is stopping one of its timers */
+  private releasing = false;
+  /** Whether the group was destroyed */
+  private destroyed = false;
+
+  constructor(readonly timers: RxTimer[]) {
+    this.subscription = merge(
+      ...timers.map((timer, index) =>
+        timer.onEvent().pipe(map((event) => ({ index, timer, event })))
+      )
+    ).subscribe((childEvent) => {
+      this.childEvent$.next(childEvent);
+      if (!this.active.includes(childEvent.index)) return;
+
+      if (childEvent.event === RxTimerEvent.TICK) {
+        this.handleTick(childEvent.index);
+      } else if (this.hasLeft(childEvent)) {
+        this.handleLeave(childEvent.index);
+      }
+    });
+  }
+
+  /**
+   * Starts the group if it's stopped.
+   */
+  start(): void {
+    if (this.destroyed) {
+      throw new Error("Cannot start a destroyed group");
+    }
+    if (!this.isStopped() || this.timers.length === 0) return;
+
+    this.startTimers();
+    this.event$.next(RxTimerEvent.START);
+  }
+
+  /**
+   * Pauses every active timer of the group, including the waits for `beginTime`.
+   */
+  pause(): void {
+    if (!this.isCounting()) return;
+
+    this.getActiveTimers().forEach((timer) => timer.pause());
+    this.event$.next(RxTimerEvent.PAUSE);
+  }
+
+  /**
+   * Resumes every paused timer of the group.
+   */
+  resume(): void {
+    if (!this.isPaused()) return;
+
+    const pausedTimers = this.getActiveTimers().filter((timer) =>
+      timer.isPaused()
+    );
+    if (pausedTimers.length === 0) return;
+
+    pausedTimers.forEach((timer) => timer.resume());
+    this.event$.next(RxTimerEvent.RESUME);
+  }
+
+  /**
+   * Stops every active timer of the group.
+   */
+  stop(): void {
+    if (this.isStopped()) return;
+
+    const activeTimers = this.getActiveTimers();
+    this.setActive([]);
+    activeTimers.forEach((timer) => timer.stop());
+    this.event$.next(RxTimerEvent.STOP);
+  }
+
+  /**
+   * Destroys the group: stops its active timers without emitting the group STOP
+   * event, releases the subscriptions to its timers, emits the DESTROY event and
+   * completes every observable of the group. The timers themselves are not
+   * destroyed, and a destroyed group cannot be started again.
+   */
+  destroy(): void {
+    if (this.destroyed) return;
+
+    this.destroyed = true;
+    this.subscription.unsubscribe();
+    const activeTimers = this.getActiveTimers();
+    this.setActive([]);
+    activeTimers.forEach((timer) => timer.stop());
+    this.event$.next(RxTimerEvent.DESTROY);
+    this.event$.complete();
+    this.childEvent$.complete();
+    this.activeChange$.complete();
+  }
+
+  /**
+   * Checks if the group was destroyed.
+   * @returns {boolean} Returns true if the group was destroyed; otherwise, returns false.
+   */
+  isDestroyed(): boolean {
+    return this.destroyed;
+  }
+
+  /**
+   * Checks if any active timer of the group is counting, or waiting for its
+   * `beginTime`.
+   * @returns {boolean} Returns true if the group is counting; otherwise, returns false.
+   */
+  isCounting(): boolean {
+    return this.getActiveTimers().some(
+      (timer) => timer.isCounting() || timer.isScheduled()
+    );
+  }
+
+  /**
+   * Checks if the group is paused.
+   * @returns {boolean} Returns true if the group is paused; otherwise, returns false.
+   */
+  isPaused(): boolean {
+    return !this.isStopped() && !this.isCounting();
+  }
+
+  /**
+   * Checks if the group is stopped, either because it was never started, it
+   * finished or 'stop()' was invoked.
+   * @returns {boolean} Returns true if the group is stopped; otherwise, returns false.
+   */
+  isStopped(): boolean {
+    return this.active.length === 0;
+  }
+
+  /**
+   * Retrieves the indexes of the timers currently running or paused in the group.
+   * @returns {number[]} The indexes of the active timers.
+   */
+  getActiveIndexes(): number[] {
+    return [...this.active];
+  }
+
+  /**
+   * Retrieves the remaining time of the group in milliseconds.
+   * @returns {number} The remaining time of the group.
+   */
+  abstract getRemainingMilliseconds(): number;
+
+  /**
+   * Triggers an event when the group starts.
+   * @returns Observable<void>
+   */
+  onStart(): Observable<void> {
+    return this.onGroupEvent(RxTimerEvent.START);
+  }
+
+  /**
+   * Triggers an event when the group is paused.
+   * @returns Observable<void>
+   */
+  onPause(): Observable<void> {
+    return this.onGroupEvent(RxTimerEvent.PAUSE);
+  }
+
+  /**
+   * Triggers an event when the group is resumed.
+   * @returns Observable<void>
+   */
+  onResume(): Observable<void> {
+    return this.onGroupEvent(RxTimerEvent.RESUME);
+  }
+
+  /**
+   * Triggers an event when the group is stopped by 'stop()'.
+   * @returns Observable<void>
+   */
+  onStop(): Observable<void> {
+    return this.onGroupEvent(RxTimerEvent.STOP);
+  }
+
+  /**
+   * Triggers an event when the group finishes.
+   * @returns Observable<void>
+   */
+  onTick(): Observable<void> {
+    return this.onGroupEvent(RxTimerEvent.TICK);
+  }
+
+  /**
+   * Triggers an event when the group is destroyed.
+   * @returns Observable<void>
+   */
+  onDestroy(): Observable<void> {
+    return this.onGroupEvent(RxTimerEvent.DESTROY);
+  }
+
+  /**
+   * All events of the group can be listened to from here.
+   * @returns Observable<RxTimerEvent>
+   */
+  onEvent(): Observable<RxTimerEvent> {
+    return this.event$.asObservable();
+  }
+
+  /**
+   * All events of the timers of the group, along with the index of the emitting
+   * timer, can be listened to from here.
+   * @returns Observable<RxTimerGroupChildEvent>
+   */
+  onChildEvent(): Observable<RxTimerGroupChildEvent> {
+    return this.childEvent$.asObservable();
+  }
+
+  /**
+   * Triggers an event carrying the indexes of the active timers whenever they change.
+   * @returns Observable<number[]>
+   */
+  onActiveChange(): Observable<number[]> {
+    return this.activeChange$.asObservable();
+  }
+
+  /**
+   * Starts the timers of the group and marks them as active.
+   */
+  protected abstract startTimers(): void;
+
+  /**
+   * Handles the TICK event of an active timer.
+   * @param index The index of the timer
+   */
+  protected abstract handleTick(index: number): void;
+
+  /**
+   * Sets the indexes of the active timers.
+   * @param active The indexes of the active timers
+   */
+  protected setActive(active: number[]): void {
+    this.active = active;
+    this.activeChange$.next(this.getActiveIndexes());
+  }
+
+  /**
+   * Stops a timer leaving the group, such as the following cycles of a timer
+   * with the `continue` option.
+   * @param index The index of the timer
+   */
+  protected release(index: number): void {
+    const timer = this.timers[index];
+    if (timer.isStopped()) return;
+
+    this.releasing = true;
+    timer.stop();
+    this.releasing = false;
+  }
+
+  /**
+   * Finishes the group and emits the group TICK event.
+   */
+  protected complete(): void {
+    if (!this.isStopped()) this.setActive([]);
+    this.event$.next(RxTimerEvent.TICK);
+  }
+
+  /**
+   * Checks if the event of an active timer means that it left the group, i.e. it
+   * was stopped or destroyed outside of the group.
+   * @param childEvent The event of the timer
+   */
+  private hasLeft({ timer, event }: RxTimerGroupChildEvent): boolean {
+    switch (event) {
+      case RxTimerEvent.STOP:
+      case RxTimerEvent.RESET:
+      case RxTimerEvent.SCHEDULE_CANCELLED:
+      case RxTimerEvent.DESTROY:
+        return !this.releasing && timer.getStatus() === RxTimerStatus.IDLE;
+      default:
+        return false;
+    }
+  }
+
+  /**
+   * Removes a timer that left the group from the active timers, and stops the
+   * group if no timer is active anymore.
+   * @param index The index of the timer
+   */
+  private handleLeave(index: number): void {
+    this.setActive(this.active.filter((i) => i !== index));
+    if (this.isStopped()) this.event$.next(RxTimerEvent.STOP);
+  }
+
+  /**
+   * Retrieves the active timers.
+   */
+  private getActiveTimers(): RxTimer[] {
+    return this.active.map((index) => this.timers[index]);
+  }
+
+  /**
+   * Creates an observable of the given group event.
+   * @param event The group event
+   */
+  private onGroupEvent(event: RxTimerEvent): Observable<void> {
+    return this.event$.pipe(
+      filter((e) => e === event),
+      map(() => {})
+    );
+  }
+}
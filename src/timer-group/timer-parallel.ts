@@ -0,0 +1,33 @@
+import { RxTimerGroup } from "./timer-group";
+
+/**
+ * Runs all of its timers at the same time. The group finishes once every timer
+ * has emitted its TICK event.
+ */
+export class RxTimerParallel extends RxTimerGroup {
+  /**
+   * Retrieves the remaining time of the longest running timer.
+   * @returns {number} The remaining time of the group.
+   */
+  getRemainingMilliseconds(): number {
+    return this.getActiveIndexes().reduce(
+      (remaining, index) =>
+        Math.max(remaining, this.timers[index].getRemainingMilliseconds()),
+      0
+    );
+  }
+
+  protected startTimers(): void {
+    this.setActive(this.timers.map((_, index) => index));
+    this.timers.forEach((timer) => timer.start());
+  }
+
+  protected handleTick(index: number): void {
+    this.release(index);
+    this.setActive(this.getActiveIndexes().filter((i) => i !== index));
+
+    if (this.isStopped()) {
+      this.complete();
+    }
+  }
+}
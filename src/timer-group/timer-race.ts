@@ -0,0 +1,42 @@
+import { RxTimerGroup } from "./timer-group";
+
+/**
+ * Runs all of its timers at the same time. The group finishes with the first
+ * TICK event, and the other timers are stopped.
+ */
+export class RxTimerRace extends RxTimerGroup {
+  /** Index of the timer that finished first */
+  private winner = -1;
+
+  /**
+   * Retrieves the remaining time of the timer closest to finishing.
+   * @returns {number} The remaining time of the group.
+   */
+  getRemainingMilliseconds(): number {
+    const remaining = this.getActiveIndexes().map((index) =>
+      this.timers[index].getRemainingMilliseconds()
+    );
+
+    return remaining.length > 0 ? Math.min(...remaining) : 0;
+  }
+
+  /**
+   * Retrieves the index of the timer that won the last race.
+   * @returns {number} The index of the winner, or -1 if the race didn't finish.
+   */
+  getWinnerIndex(): number {
+    return this.winner;
+  }
+
+  protected startTimers(): void {
+    this.winner = -1;
+    this.setActive(this.timers.map((_, index) => index));
+    this.timers.forEach((timer) => timer.start());
+  }
+
+  protected handleTick(index: number): void {
+    this.winner = index;
+    this.getActiveIndexes().forEach((i) => this.release(i));
+    this.complete();
+  }
+}
@@ -0,0 +1,56 @@
+import { RxTimerGroup } from "./timer-group";
+
+/**
+ * Runs its timers one after another. The group finishes with the TICK event of
+ * its last timer.
+ */
+export class RxTimerSequence extends RxTimerGroup {
+  /**
+   * Retrieves the remaining time of the active timer plus the duration of the
+   * timers following it.
+   * @returns {number} The remaining time of the sequence.
+   */
+  getRemainingMilliseconds(): number {
+    const [index] = this.getActiveIndexes();
+    if (index === undefined) return 0;
+
+    return this.timers
+      .slice(index + 1)
+      .reduce(
+        (remaining, timer) => remaining + timer.duration,
+        this.timers[index].getRemainingMilliseconds()
+      );
+  }
+
+  /**
+   * Retrieves the index of the active timer.
+   * @returns {number} The index of the active timer, or -1 if the sequence is stopped.
+   */
+  getActiveIndex(): number {
+    const [index] = this.getActiveIndexes();
+    return index === undefined ? -1 : index;
+  }
+
+  protected startTimers(): void {
+    this.startTimer(0);
+  }
+
+  protected handleTick(index: number): void {
+    this.release(index);
+
+    if (index < this.timers.length - 1) {
+      this.startTimer(index + 1);
+    } else {
+      this.complete();
+    }
+  }
+
+  /**
+   * Activates and starts the timer at the given index.
+   * @param index The index of the timer
+   */
+  private startTimer(index: number): void {
+    this.setActive([index]);
+    this.timers[index].start();
+  }
+}
@@ -0,0 +1,157 @@
+import { TestScheduler } from "rxjs/testing";
+import {
+  RxTimer,
+  RxTimerEvent,
+  RxTimerRecorder,
+  RxTimerRecording,
+  RxTimerStatus,
+  replayTimerRecording,
+} from "..";
+import { createTestScheduler } from "../test-helpers";
+
+describe("RxTimerRecorder", () => {
+  let scheduler: TestScheduler;
+
+  beforeEach(() => {
+    scheduler = createTestScheduler();
+  });
+
+  it("should record every event with the remaining time and status", () => {
+    const timer = new RxTimer(100, { scheduler });
+    const recorder = new RxTimerRecorder(timer);
+
+    timer.start();
+    scheduler.schedule(() => timer.pause(), 30);
+    scheduler.schedule(() => timer.resume(), 50);
+    scheduler.flush();
+
+    expect(
+      recorder
+        .getTimeline()
+        .map(({ type, at, remaining, status }) => [type, at, remaining, status])
+    ).toEqual([
+      [RxTimerEvent.START, 0, 100, RxTimerStatus.COUNTING],
+      [RxTimerEvent.PAUSE, 30, 70, RxTimerStatus.PAUSED],
+      [RxTimerEvent.RESUME, 50, 70, RxTimerStatus.COUNTING],
+      [RxTimerEvent.TICK, 120, 0, RxTimerStatus.IDLE],
+    ]);
+  });
+
+  it("should export the recording as JSON", () => {
+    const timer = new RxTimer(100, { scheduler, continue: true, repeat: 2 });
+    const recorder = new RxTimerRecorder(timer);
+
+    timer.start();
+    scheduler.flush();
+    const recording: RxTimerRecording = JSON.parse(JSON.stringify(recorder));
+
+    expect(recording.duration).toBe(100);
+    expect(recording.options).toEqual({ continue: true, repeat: 2 });
+    expect(recording.startedAt).toBe(0);
+    expect(recording.timeline.map((e) => e.type)).toEqual([
+      RxTimerEvent.START,
+      RxTimerEvent.TICK,
+      RxTimerEvent.TICK,
+      RxTimerEvent.COMPLETE,
+    ]);
+  });
+
+  it("should stop recording on stop()", () => {
+    const timer = new RxTimer(100, { scheduler });
+    const recorder = new RxTimerRecorder(timer);
+
+    timer.start();
+    scheduler.schedule(() => recorder.stop(), 50);
+    scheduler.flush();
+
+    expect(recorder.getTimeline().map((e) => e.type)).toEqual([
+      RxTimerEvent.START,
+    ]);
+  });
+
+  it("should replay the recorded events under a virtual clock", () => {
+    const timer = new RxTimer(100, { scheduler, continue: true, repeat: 3 });
+    const recorder = new RxTimerRecorder(timer);
+
+    scheduler.schedule(() => timer.start(), 10);
+    scheduler.schedule(() => timer.pause(), 140);
+    scheduler.schedule(() => timer.addTime(50), 150);
+    scheduler.schedule(() => timer.resume(), 200);
+    scheduler.schedule(() => timer.subtractTime(20), 230);
+    scheduler.flush();
+    const recording: RxTimerRecording = JSON.parse(JSON.stringify(recorder));
+
+    const replayScheduler = createTestScheduler();
+    const replayed = replayTimerRecording(recording, replayScheduler);
+    const replayRecorder = new RxTimerRecorder(replayed);
+    replayScheduler.flush();
+
+    expect(replayRecorder.getTimeline()).toEqual(recording.timeline);
+  });
+
+  it("should replay the recording of a stopped timer", () => {
+    const timer = new RxTimer(100, { scheduler });
+    const recorder = new RxTimerRecorder(timer);
+
+    timer.start();
+    scheduler.schedule(() => timer.stop(), 40);
+    scheduler.schedule(() => timer.start(), 60);
+    scheduler.flush();
+
+    const replayScheduler = createTestScheduler();
+    const replayed = replayTimerRecording(recorder.toJSON(), replayScheduler);
+    const replayRecorder = new RxTimerRecorder(replayed);
+    replayScheduler.flush();
+
+    expect(replayRecorder.getTimeline()).toEqual(recorder.getTimeline());
+  });
+
+  it("should replay the wait for beginTime at the recorded times", () => {
+    const wallTime = 1700000000000;
+    const timer = new RxTimer(100, {
+      scheduler,
+      clock: () => wallTime + scheduler.now(),
+      beginTime: wallTime + 50,
+    });
+    const recorder = new RxTimerRecorder(timer);
+
+    timer.start();
+    scheduler.flush();
+    const recording: RxTimerRecording = JSON.parse(JSON.stringify(recorder));
+
+    const replayScheduler = createTestScheduler();
+    const replayed = replayTimerRecording(recording, replayScheduler);
+    const replayRecorder = new RxTimerRecorder(replayed);
+    replayScheduler.flush();
+
+    expect(
+      recording.timeline.map(({ type, at }) => [type, at - wallTime])
+    ).toEqual([
+      [RxTimerEvent.SCHEDULED, 0],
+      [RxTimerEvent.START, 50],
+      [RxTimerEvent.TICK, 150],
+    ]);
+    expect(replayRecorder.getTimeline()).toEqual(recording.timeline);
+  });
+
+  it("should replay the cancellation of the wait for beginTime", () => {
+    const timer = new RxTimer(100, { scheduler, beginTime: 50 });
+    const recorder = new RxTimerRecorder(timer);
+
+    timer.start();
+    scheduler.schedule(() => timer.stop(), 20);
+    scheduler.flush();
+    const recording: RxTimerRecording = JSON.parse(JSON.stringify(recorder));
+
+    const replayScheduler = createTestScheduler();
+    const replayed = replayTimerRecording(recording, replayScheduler);
+    const replayRecorder = new RxTimerRecorder(replayed);
+    replayScheduler.flush();
+
+    expect(recording.timeline.map(({ type }) => type)).toEqual([
+      RxTimerEvent.SCHEDULED,
+      RxTimerEvent.SCHEDULE_CANCELLED,
+    ]);
+    expect(replayRecorder.getTimeline()).toEqual(recording.timeline);
+  });
+});
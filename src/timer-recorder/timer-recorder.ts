@@ -0,0 +1,151 @@
+import { SchedulerLike, Subscription } from "rxjs";
+import { RxTimer, RxTimerEvent, RxTimerEventDetail, RxTimerStatus } from "..";
+import { RxTimerSnapshotOptions } from "../timer-snapshot";
+
+/** Event of a recorded timeline, along with the status of the timer */
+export type RxTimerTimelineEntry = RxTimerEventDetail & {
+  /** Status of the timer when the event was emitted */
+  status: RxTimerStatus;
+};
+
+/** Plain JSON recording of the events of a timer */
+export type RxTimerRecording = {
+  /** Duration of the timer when the recording began */
+  duration: number;
+  /** Serializable options of the timer */
+  options: RxTimerSnapshotOptions;
+  /** Time at which the recording began */
+  startedAt: number;
+  /** Recorded events, in order */
+  timeline: RxTimerTimelineEntry[];
+};
+
+/**
+ * Records every event of a timer along with its time, remaining time and status,
+ * e.g. to investigate a report of unexpected behavior. The recording can be
+ * exported as JSON and replayed with 'replayTimerRecording()'.
+ */
+export class RxTimerRecorder {
+  /** Time at which the recording began */
+  readonly startedAt: number;
+  /** Recorded events */
+  private timeline: RxTimerTimelineEntry[] = [];
+  /** Subscription to the events of the timer */
+  private subscription: Subscription;
+
+  /**
+   * Creates a recorder and starts recording the events of the timer.
+   * @param timer The recorded timer
+   */
+  constructor(readonly timer: RxTimer) {
+    this.startedAt = timer.now();
+    this.subscription = timer.onEventDetail().subscribe((detail) => {
+      this.timeline.push({ ...detail, status: timer.getStatus() });
+    });
+  }
+
+  /**
+   * Stops recording the events of the timer. The recorded events are kept.
+   */
+  stop(): void {
+    this.subscription.unsubscribe();
+  }
+
+  /**
+   * Retrieves the events recorded so far.
+   * @returns {RxTimerTimelineEntry[]} The recorded events, in order.
+   */
+  getTimeline(): RxTimerTimelineEntry[] {
+    return [...this.timeline];
+  }
+
+  /**
+   * Captures the recording as plain JSON, so that 'JSON.stringify()' exports it.
+   * - Note: A duration function is captured as the duration of the current cycle.
+   * @returns {RxTimerRecording} The recording.
+   */
+  toJSON(): RxTimerRecording {
+    const { scheduler, clock, monotonicClock, signal, ...options } =
+      this.timer.options;
+
+    return {
+      duration: this.timer.duration,
+      options,
+      startedAt: this.startedAt,
+      timeline: this.getTimeline(),
+    };
+  }
+}
+
+/**
+ * Creates a timer from the recording and feeds the recorded calls back into it
+ * on the given scheduler, e.g. a TestScheduler, so that the timer emits the
+ * recorded sequence of events under a virtual clock. The start, scheduled, pause,
+ * resume, stop, cancellation, reset, adjustment and destroy events are replayed as
+ * calls, while
+ * the other events are emitted by the timer itself. The clock of the replayed
+ * timer is aligned to the time at which the recording began, so that `beginTime`,
+ * `endTime` and `schedule` apply at the recorded times. The recording must begin
+ * before the timer starts, as the replayed timer starts from a stopped state.
+ * @param recording The recording to replay
+ * @param scheduler The scheduler of the replayed timer
+ * @returns {RxTimer} The replayed timer, whose calls run once the scheduler is flushed.
+ */
+export function replayTimerRecording(
+  recording: RxTimerRecording,
+  scheduler: SchedulerLike
+): RxTimer {
+  const offset = recording.startedAt - scheduler.now();
+  const timer = new RxTimer(recording.duration, {
+    ...recording.options,
+    scheduler,
+    clock: () => scheduler.now() + offset,
+  });
+
+  recording.timeline.forEach((entry) => {
+    scheduler.schedule(
+      () => replayTimelineEntry(timer, entry),
+      entry.at - recording.startedAt
+    );
+  });
+
+  return timer;
+}
+
+/**
+ * Performs the call that emitted the recorded event, if any.
+ * @param timer The replayed timer
+ * @param entry The recorded event
+ */
+function replayTimelineEntry(
+  timer: RxTimer,
+  entry: RxTimerTimelineEntry
+): void {
+  switch (entry.type) {
+    case RxTimerEvent.START:
+    case RxTimerEvent.SCHEDULED:
+      // Both are also emitted by the timer itself when a scheduled cycle begins
+      // or a scheduled timer waits for its next cycle
+      if (timer.getStatus() === RxTimerStatus.IDLE) timer.start();
+      break;
+    case RxTimerEvent.PAUSE:
+      timer.pause();
+      break;
+    case RxTimerEvent.RESUME:
+      timer.resume();
+      break;
+    case RxTimerEvent.STOP:
+    case RxTimerEvent.SCHEDULE_CANCELLED:
+      timer.stop();
+      break;
+    case RxTimerEvent.RESET:
+      timer.reset();
+      break;
+    case RxTimerEvent.ADJUST:
+      timer.setRemaining(entry.remaining);
+      break;
+    case RxTimerEvent.DESTROY:
+      timer.destroy();
+      break;
+  }
+}
@@ -0,0 +1,144 @@
+import { TestScheduler } from "rxjs/testing";
+import { RxTimer, RxTimerEvent, RxTimerRegistry } from "..";
+import { createTestScheduler } from "../test-helpers";
+
+describe("RxTimerRegistry", () => {
+  let scheduler: TestScheduler;
+  let registry: RxTimerRegistry;
+
+  beforeEach(() => {
+    scheduler = createTestScheduler();
+    registry = new RxTimerRegistry();
+  });
+
+  it("should create and look up timers by key", () => {
+    const timer = registry.create("tea", 100, { scheduler });
+
+    expect(registry.get("tea")).toBe(timer);
+    expect(registry.has("tea")).toBe(true);
+    expect(registry.get("coffee")).toBeUndefined();
+    expect(registry.size).toBe(1);
+    expect(() => registry.create("tea", 50, { scheduler })).toThrow();
+  });
+
+  it("should filter the timers by tag", () => {
+    const tea = registry.create("tea", 100, { scheduler }, ["drink"]);
+    registry.create("oven", 100, { scheduler }, ["kitchen"]);
+    const coffee = registry.add("coffee", new RxTimer(100, { scheduler }), [
+      "drink",
+      "kitchen",
+    ]);
+
+    expect(registry.getByTag("drink")).toEqual([tea, coffee]);
+    expect(registry.keys("kitchen")).toEqual(["oven", "coffee"]);
+    expect(registry.keys()).toEqual(["tea", "oven", "coffee"]);
+  });
+
+  it("should pause, resume and stop the timers in bulk", () => {
+    const tea = registry.create("tea", 100, { scheduler }, ["drink"]);
+    const oven = registry.create("oven", 100, { scheduler });
+    tea.start();
+    oven.start();
+
+    registry.pauseAll("drink");
+    expect(tea.isPaused()).toBe(true);
+    expect(oven.isCounting()).toBe(true);
+
+    registry.pauseAll();
+    expect(oven.isPaused()).toBe(true);
+
+    registry.resumeAll();
+    expect(tea.isCounting()).toBe(true);
+    expect(oven.isCounting()).toBe(true);
+
+    registry.stopAll();
+    expect(tea.isStopped()).toBe(true);
+    expect(oven.isStopped()).toBe(true);
+    expect(registry.size).toBe(2);
+  });
+
+  it("should tag the aggregated events with the key of the timer", () => {
+    const events: [string, RxTimerEvent, number][] = [];
+    registry.events$.subscribe(({ key, event }) =>
+      events.push([key, event, scheduler.now()])
+    );
+
+    registry.create("tea", 50, { scheduler }).start();
+    scheduler.schedule(() => registry.get("oven")!.start(), 20);
+    registry.create("oven", 50, { scheduler });
+    scheduler.flush();
+
+    expect(events).toEqual([
+      ["tea", RxTimerEvent.START, 0],
+      ["oven", RxTimerEvent.START, 20],
+      ["tea", RxTimerEvent.TICK, 50],
+      ["oven", RxTimerEvent.TICK, 70],
+    ]);
+  });
+
+  it("should remove the timers once they finish or are destroyed", () => {
+    registry.create("once", 50, { scheduler }).start();
+    registry.create("repeat", 50, { scheduler, continue: true, repeat: 2 });
+    registry.get("repeat")!.start();
+    registry.create("loop", 50, { scheduler, continue: true }).start();
+    registry.create("idle", 50, { scheduler });
+
+    scheduler.schedule(() => {
+      expect(registry.keys()).toEqual(["repeat", "loop", "idle"]);
+    }, 60);
+    scheduler.schedule(() => registry.get("loop")!.destroy(), 120);
+    scheduler.flush();
+
+    expect(registry.keys()).toEqual(["idle"]);
+  });
+
+  it("should keep a timer started again by a TICK subscriber", () => {
+    const timer = new RxTimer(50, { scheduler, continue: true, repeat: 2 });
+    let restarted = false;
+    timer.onTick().subscribe(() => {
+      if (timer.isStopped() && !restarted) {
+        restarted = true;
+        timer.start();
+      }
+    });
+    registry.add("repeat", timer);
+    timer.start();
+
+    scheduler.schedule(() => {
+      expect(registry.keys()).toEqual(["repeat"]);
+    }, 150);
+    scheduler.flush();
+
+    expect(registry.keys()).toEqual([]);
+  });
+
+  it("should create timers with a duration function", () => {
+    const timer = registry.create("backoff", (cycle) => 100 * (cycle + 1), {
+      scheduler,
+      continue: true,
+      repeat: 3,
+    });
+    const tickTimes: number[] = [];
+    timer.onTick().subscribe(() => tickTimes.push(scheduler.now()));
+
+    timer.start();
+    scheduler.flush();
+
+    expect(tickTimes).toEqual([100, 300, 600]);
+    expect(registry.has("backoff")).toBe(false);
+  });
+
+  it("should stop forwarding the events of a removed timer", () => {
+    const events: RxTimerEvent[] = [];
+    registry.events$.subscribe(({ event }) => events.push(event));
+
+    const timer = registry.create("tea", 50, { scheduler });
+    expect(registry.remove("tea")).toBe(true);
+    expect(registry.remove("tea")).toBe(false);
+    timer.start();
+    scheduler.flush();
+
+    expect(events).toEqual([]);
+    expect(timer.isStopped()).toBe(true);
+  });
+});
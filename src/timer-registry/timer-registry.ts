@@ -0,0 +1,184 @@
+import { Observable, Subject, Subscription } from "rxjs";
+import {
+  RxTimer,
+  RxTimerDurationFunction,
+  RxTimerEvent,
+  RxTimerOptions,
+} from "..";
+import { isFinishingEvent } from "../timer-state";
+
+/** Event emitted by a timer of a registry */
+export type RxTimerRegistryEvent = {
+  /** Key of the timer in the registry */
+  key: string;
+  /** Timer emitting the event */
+  timer: RxTimer;
+  /** The emitted event */
+  event: RxTimerEvent;
+};
+
+/** Timer registered with its tags */
+type RxTimerRegistryEntry = {
+  timer: RxTimer;
+  tags: string[];
+  subscription: Subscription;
+};
+
+/**
+ * Registry of named timers. Timers are looked up by key, controlled in bulk,
+ * optionally filtered by tag, and removed once they finish or are destroyed.
+ */
+export class RxTimerRegistry {
+  /** Subject for the events of the registered timers */
+  private event$ = new Subject<RxTimerRegistryEvent>();
+  /** Registered timers by key */
+  private entries = new Map<string, RxTimerRegistryEntry>();
+
+  /** Events of every registered timer, along with the key of the timer */
+  readonly events$: Observable<RxTimerRegistryEvent> =
+    this.event$.asObservable();
+
+  /**
+   * Creates a timer and registers it under the given key.
+   * @param key The key of the timer
+   * @param duration The duration of every cycle in milliseconds, or a function
+   * computing the duration of each cycle
+   * @param options The timer options
+   * @param tags The tags of the timer
+   * @returns {RxTimer} The created timer.
+   */
+  create(
+    key: string,
+    duration: number | RxTimerDurationFunction,
+    options: RxTimerOptions = {},
+    tags: string[] = []
+  ): RxTimer {
+    return this.add(key, new RxTimer(duration, options), tags);
+  }
+
+  /**
+   * Registers an existing timer under the given key.
+   * @param key The key of the timer
+   * @param timer The timer to register
+   * @param tags The tags of the timer
+   * @returns {RxTimer} The registered timer.
+   */
+  add(key: string, timer: RxTimer, tags: string[] = []): RxTimer {
+    if (this.entries.has(key)) {
+      throw new Error(`A timer is already registered with the key: ${key}`);
+    }
+
+    const subscription = timer.onEvent().subscribe((event) => {
+      this.event$.next({ key, timer, event });
+      if (isFinished(timer, event)) this.remove(key);
+    });
+    this.entries.set(key, { timer, tags: [...tags], subscription });
+
+    return timer;
+  }
+
+  /**
+   * Retrieves the timer registered under the given key.
+   * @param key The key of the timer
+   * @returns {RxTimer | undefined} The timer, or undefined if no timer is registered with the key.
+   */
+  get(key: string): RxTimer | undefined {
+    return this.entries.get(key)?.timer;
+  }
+
+  /**
+   * Checks if a timer is registered under the given key.
+   * @param key The key of the timer
+   * @returns {boolean} Returns true if a timer is registered; otherwise, returns false.
+   */
+  has(key: string): boolean {
+    return this.entries.has(key);
+  }
+
+  /**
+   * Retrieves the keys of the registered timers, optionally with the given tag.
+   * @param tag The tag of the timers
+   * @returns {string[]} The keys of the timers.
+   */
+  keys(tag?: string): string[] {
+    const keys: string[] = [];
+    this.entries.forEach((entry, key) => {
+      if (tag === undefined || entry.tags.includes(tag)) keys.push(key);
+    });
+
+    return keys;
+  }
+
+  /**
+   * Retrieves the registered timers with the given tag.
+   * @param tag The tag of the timers
+   * @returns {RxTimer[]} The timers with the tag.
+   */
+  getByTag(tag: string): RxTimer[] {
+    return this.getTimers(tag);
+  }
+
+  /**
+   * Removes the timer registered under the given key, without stopping it.
+   * @param key The key of the timer
+   * @returns {boolean} Returns true if a timer was removed; otherwise, returns false.
+   */
+  remove(key: string): boolean {
+    const entry = this.entries.get(key);
+    if (!entry) return false;
+
+    entry.subscription.unsubscribe();
+    return this.entries.delete(key);
+  }
+
+  /**
+   * Pauses every counting timer, optionally with the given tag.
+   * @param tag The tag of the timers
+   */
+  pauseAll(tag?: string): void {
+    this.getTimers(tag).forEach((timer) => timer.pause());
+  }
+
+  /**
+   * Resumes every paused timer, optionally with the given tag.
+   * @param tag The tag of the timers
+   */
+  resumeAll(tag?: string): void {
+    this.getTimers(tag).forEach((timer) => timer.resume());
+  }
+
+  /**
+   * Stops every timer, optionally with the given tag. Stopped timers stay
+   * registered and can be started again.
+   * @param tag The tag of the timers
+   */
+  stopAll(tag?: string): void {
+    this.getTimers(tag).forEach((timer) => timer.stop());
+  }
+
+  /**
+   * Retrieves the number of registered timers.
+   * @returns {number} The number of timers.
+   */
+  get size(): number {
+    return this.entries.size;
+  }
+
+  /**
+   * Retrieves the registered timers, optionally with the given tag.
+   * @param tag The tag of the timers
+   */
+  private getTimers(tag?: string): RxTimer[] {
+    return this.keys(tag).map((key) => this.entries.get(key)!.timer);
+  }
+}
+
+/**
+ * Checks if the event finishes the timer: the timer is destroyed, or it stopped
+ * after its last 'Tick' or 'Complete' event.
+ * @param timer The timer emitting the event
+ * @param event The emitted event
+ */
+function isFinished(timer: RxTimer, event: RxTimerEvent): boolean {
+  return event === RxTimerEvent.DESTROY || isFinishingEvent(timer, event);
+}
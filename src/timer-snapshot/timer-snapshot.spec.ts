@@ -0,0 +1,265 @@
+import { TestScheduler } from "rxjs/testing";
+import { RxTimer, RxTimerEvent, RxTimerSnapshot, RxTimerStatus } from "..";
+import { createTestScheduler } from "../test-helpers";
+
+describe("RxTimer snapshot", () => {
+  let scheduler: TestScheduler;
+  let now: number;
+  const clock = () => now + scheduler.now();
+
+  /** Takes a snapshot and simulates a restart after `downtime` milliseconds */
+  const restart = (timer: RxTimer, downtime: number): RxTimerSnapshot => {
+    const snapshot = JSON.parse(JSON.stringify(timer.toSnapshot()));
+    now = clock() + downtime;
+    scheduler = createTestScheduler();
+    return snapshot;
+  };
+
+  /** Runs the scheduled actions up to the given virtual time */
+  const advanceTo = (frame: number) => {
+    scheduler.maxFrames = frame;
+    scheduler.schedule(() => {}, frame);
+    scheduler.flush();
+  };
+
+  beforeEach(() => {
+    now = 10000;
+    scheduler = createTestScheduler();
+  });
+
+  it("should capture the timer as plain JSON", () => {
+    const timer = new RxTimer(100, { scheduler, clock, continue: true });
+
+    expect(timer.toSnapshot().state).toBe("stable");
+
+    timer.start();
+    scheduler.schedule(() => timer.pause(), 30);
+    scheduler.flush();
+
+    const snapshot = timer.toSnapshot();
+    expect(snapshot).toEqual({
+      duration: 100,
+      options: { continue: true },
+      state: "paused",
+      remaining: 70,
+      startTime: 10000,
+      deadline: 10100,
+      nextRunTime: -1,
+      pendingRemaining: -1,
+      pausedWait: -1,
+      cycle: 0,
+      takenAt: 10030,
+    });
+    expect(JSON.parse(JSON.stringify(snapshot))).toEqual(snapshot);
+  });
+
+  it("should restore a paused timer", () => {
+    const timer = new RxTimer(100, { scheduler, clock });
+    timer.start();
+    scheduler.schedule(() => timer.pause(), 30);
+    scheduler.flush();
+
+    const restored = RxTimer.fromSnapshot(restart(timer, 5000), {
+      scheduler,
+      clock,
+    });
+    const tickTimes: number[] = [];
+    restored.onTick().subscribe(() => tickTimes.push(scheduler.now()));
+
+    let status: RxTimerStatus | undefined;
+    restored.state$.subscribe((s) => (status = s));
+
+    expect(restored.isPaused()).toBe(true);
+    expect(status).toBe(RxTimerStatus.PAUSED);
+    expect(restored.getRemainingMilliseconds()).toBe(70);
+
+    restored.resume();
+    scheduler.flush();
+
+    expect(tickTimes).toEqual([70]);
+  });
+
+  it("should compensate the downtime of a counting timer", () => {
+    const timer = new RxTimer(100, { scheduler, clock });
+    timer.start();
+    advanceTo(30);
+
+    const restored = RxTimer.fromSnapshot(restart(timer, 50), {
+      scheduler,
+      clock,
+    });
+    const tickTimes: number[] = [];
+    restored.onTick().subscribe(() => tickTimes.push(scheduler.now()));
+
+    expect(restored.isCounting()).toBe(true);
+    expect(restored.getRemainingMilliseconds()).toBe(20);
+
+    scheduler.flush();
+
+    expect(tickTimes).toEqual([20]);
+  });
+
+  it("should emit the tick missed while the process was down", () => {
+    const timer = new RxTimer(100, { scheduler, clock });
+    timer.start();
+
+    const restored = RxTimer.fromSnapshot(restart(timer, 500), {
+      scheduler,
+      clock,
+    });
+    let tickCount = 0;
+    restored.onTick().subscribe(() => tickCount++);
+
+    expect(restored.isStopped()).toBe(true);
+
+    scheduler.flush();
+
+    expect(tickCount).toBe(1);
+  });
+
+  it("should emit the ticks missed in continue mode and keep the cycles aligned", () => {
+    const timer = new RxTimer(100, { scheduler, clock, continue: true });
+    timer.start();
+    advanceTo(30);
+
+    const restored = RxTimer.fromSnapshot(restart(timer, 320), {
+      scheduler,
+      clock,
+    });
+    const ticks: [number, number][] = [];
+    restored
+      .onEventDetail(RxTimerEvent.TICK)
+      .subscribe(({ cycle }) => ticks.push([scheduler.now(), cycle]));
+    scheduler.schedule(() => restored.stop(), 100);
+
+    expect(restored.cycle).toBe(3);
+    expect(restored.getRemainingMilliseconds()).toBe(50);
+
+    scheduler.flush();
+
+    expect(ticks).toEqual([
+      [0, 0],
+      [0, 1],
+      [0, 2],
+      [50, 3],
+    ]);
+  });
+
+  it("should emit the last cycles of a repeat timer missed while down", () => {
+    const timer = new RxTimer(100, {
+      scheduler,
+      clock,
+      continue: true,
+      repeat: 3,
+    });
+    timer.start();
+    advanceTo(130);
+
+    const restored = RxTimer.fromSnapshot(restart(timer, 500), {
+      scheduler,
+      clock,
+    });
+    const events: [RxTimerEvent, number][] = [];
+    restored
+      .onEventDetail()
+      .subscribe(({ type, cycle }) => events.push([type, cycle]));
+    scheduler.flush();
+
+    expect(events).toEqual([
+      [RxTimerEvent.TICK, 1],
+      [RxTimerEvent.TICK, 2],
+      [RxTimerEvent.COMPLETE, 2],
+    ]);
+  });
+
+  it("should restore a timer waiting for its begin time", () => {
+    const timer = new RxTimer(100, { scheduler, clock, beginTime: 10500 });
+    timer.start();
+
+    const restored = RxTimer.fromSnapshot(restart(timer, 100), {
+      scheduler,
+      clock,
+    });
+    const startTimes: number[] = [];
+    restored.onStart().subscribe(() => startTimes.push(scheduler.now()));
+    scheduler.flush();
+
+    expect(startTimes).toEqual([400]);
+  });
+
+  it("should start counting a timer whose begin time passed while down", () => {
+    const timer = new RxTimer(100, { scheduler, clock, beginTime: 10500 });
+    timer.start();
+
+    const restored = RxTimer.fromSnapshot(restart(timer, 530), {
+      scheduler,
+      clock,
+    });
+
+    expect(restored.isCounting()).toBe(true);
+    expect(restored.getRemainingMilliseconds()).toBe(70);
+  });
+
+  it("should restore a shifted and adjusted wait for the begin time", () => {
+    const timer = new RxTimer(100, { scheduler, clock, beginTime: 10100 });
+    timer.start();
+    scheduler.schedule(() => timer.pause(), 20);
+    scheduler.schedule(() => timer.resume(), 40);
+    scheduler.schedule(() => timer.setRemaining(30), 50);
+    advanceTo(60);
+
+    const snapshot = restart(timer, 10);
+    expect(snapshot.nextRunTime).toBe(10120);
+    expect(snapshot.pendingRemaining).toBe(30);
+
+    const restored = RxTimer.fromSnapshot(snapshot, { scheduler, clock });
+    const startTimes: number[] = [];
+    restored.onStart().subscribe(() => startTimes.push(scheduler.now()));
+    const tickTimes: number[] = [];
+    restored.onTick().subscribe(() => tickTimes.push(scheduler.now()));
+    scheduler.flush();
+
+    expect(startTimes).toEqual([50]);
+    expect(tickTimes).toEqual([80]);
+  });
+
+  it("should restore the adjusted cycle whose begin time passed while down", () => {
+    const timer = new RxTimer(100, { scheduler, clock, beginTime: 10100 });
+    timer.start();
+    scheduler.schedule(() => timer.setRemaining(30), 50);
+    advanceTo(60);
+
+    const restored = RxTimer.fromSnapshot(restart(timer, 60), {
+      scheduler,
+      clock,
+    });
+
+    expect(restored.isCounting()).toBe(true);
+    expect(restored.getRemainingMilliseconds()).toBe(10);
+  });
+
+  it("should restore a paused wait for the begin time", () => {
+    const timer = new RxTimer(100, { scheduler, clock, beginTime: 10100 });
+    timer.start();
+    scheduler.schedule(() => timer.pause(), 30);
+    scheduler.flush();
+
+    const snapshot = restart(timer, 5000);
+    expect(snapshot.state).toBe("waiting-paused");
+
+    const restored = RxTimer.fromSnapshot(snapshot, { scheduler, clock });
+    let status: RxTimerStatus | undefined;
+    restored.state$.subscribe((s) => (status = s));
+    const startTimes: number[] = [];
+    restored.onStart().subscribe(() => startTimes.push(scheduler.now()));
+
+    expect(restored.isPaused()).toBe(true);
+    expect(status).toBe(RxTimerStatus.PAUSED);
+    expect(restored.getMillisecondsUntilBegin()).toBe(70);
+
+    scheduler.schedule(() => restored.resume(), 20);
+    scheduler.flush();
+
+    expect(startTimes).toEqual([90]);
+  });
+});
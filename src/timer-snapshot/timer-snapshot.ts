@@ -0,0 +1,247 @@
+import { RxTimer, RxTimerEvent, RxTimerOptions } from "..";
+import { RxTimerCountingState, RxTimerStableState } from "../timer-state";
+import { RxTimerCountingToBeginTimeState } from "../timer-state/timer-counting-to-begin-time.state";
+
+/** State of the timer captured in a snapshot */
+export type RxTimerSnapshotState =
+  | "stable"
+  | "paused"
+  | "counting"
+  | "waiting"
+  | "waiting-paused";
+
+/** Options of the timer that can be serialized into a snapshot */
+export type RxTimerSnapshotOptions = Omit<
+  RxTimerOptions,
+  "scheduler" | "clock" | "monotonicClock" | "signal"
+>;
+
+/** Plain JSON representation of a timer */
+export type RxTimerSnapshot = {
+  /** Duration of the timer */
+  duration: number;
+  /** Serializable options of the timer */
+  options: RxTimerSnapshotOptions;
+  /** State of the timer when the snapshot was taken */
+  state: RxTimerSnapshotState;
+  /** Remaining time of the cycle, counted from `startTime` while counting */
+  remaining: number;
+  /** Start time of the cycle */
+  startTime: number;
+  /** Time at which the cycle ends */
+  deadline: number;
+  /** Time at which the awaited cycle begins while waiting */
+  nextRunTime: number;
+  /** Remaining time of the awaited cycle when adjusted while waiting, or -1 */
+  pendingRemaining: number;
+  /** Time left until the awaited cycle begins while the wait is paused, or -1 */
+  pausedWait: number;
+  /** Index of the cycle */
+  cycle: number;
+  /** Time at which the snapshot was taken */
+  takenAt: number;
+};
+
+/**
+ * Captures the state of the timer as plain JSON.
+ * @param timer The timer to capture
+ * @returns {RxTimerSnapshot} The snapshot of the timer.
+ */
+export function createTimerSnapshot(timer: RxTimer): RxTimerSnapshot {
+  const { scheduler, clock, monotonicClock, signal, ...options } =
+    timer.options;
+  const state = getSnapshotState(timer);
+
+  return {
+    duration: timer.duration,
+    options,
+    state,
+    remaining: timer.remaining,
+    startTime: timer.startTime,
+    deadline: timer.deadline,
+    nextRunTime: timer.nextRunTime,
+    pendingRemaining: timer.pendingRemaining,
+    pausedWait:
+      state === "waiting-paused" ? timer.getMillisecondsUntilBegin() : -1,
+    cycle: timer.cycle,
+    takenAt: timer.now(),
+  };
+}
+
+/**
+ * Restores the state captured in the snapshot into a newly created timer,
+ * compensating for the time that passed since the snapshot was taken.
+ * Ticks that should have fired in the meantime are emitted asynchronously on the
+ * scheduler of the timer, so that subscribers attached right after restoring
+ * still receive them.
+ * @param timer The newly created timer
+ * @param snapshot The snapshot to restore
+ */
+export function restoreTimerSnapshot(
+  timer: RxTimer,
+  snapshot: RxTimerSnapshot
+): void {
+  switch (snapshot.state) {
+    case "paused":
+      timer.remaining = snapshot.remaining;
+      timer.startTime = snapshot.startTime;
+      timer.deadline = snapshot.deadline;
+      timer.cycle = snapshot.cycle;
+      // Re-entering the stable state notifies the paused status
+      timer.setState(new RxTimerStableState(timer));
+      return;
+    case "waiting":
+      restoreWaitingTimer(timer, snapshot);
+      return;
+    case "waiting-paused":
+      // The paused wait keeps the time left until the begin time
+      timer.cycle = snapshot.cycle;
+      timer.pendingRemaining = snapshot.pendingRemaining;
+      timer.setState(
+        new RxTimerCountingToBeginTimeState(timer, snapshot.pausedWait)
+      );
+      return;
+    case "counting":
+      restoreCountingTimer(timer, snapshot, snapshot.deadline);
+      return;
+  }
+}
+
+/**
+ * Determines the state of the timer from its queries.
+ * @param timer The timer to inspect
+ */
+function getSnapshotState(timer: RxTimer): RxTimerSnapshotState {
+  if (timer.isCounting()) return "counting";
+  if (timer.isPaused()) {
+    // A paused wait for the begin time has no cycle underway yet
+    return timer.remaining > 0 ? "paused" : "waiting-paused";
+  }
+  if (timer.nextRunTime >= 0) return "waiting";
+  return "stable";
+}
+
+/**
+ * Restores a timer that was waiting for its begin time, which a pause may have
+ * shifted, along with the adjusted remaining time of the awaited cycle. If the
+ * begin time passed while the process was down, the cycle is restored as if it
+ * began on time.
+ * @param timer The newly created timer
+ * @param snapshot The snapshot to restore
+ */
+function restoreWaitingTimer(timer: RxTimer, snapshot: RxTimerSnapshot): void {
+  const beginTime = snapshot.nextRunTime;
+  if (beginTime > timer.now()) {
+    timer.pendingRemaining = snapshot.pendingRemaining;
+    const waitingState = new RxTimerCountingToBeginTimeState(timer);
+    timer.setState(waitingState);
+    waitingState.start(beginTime);
+    return;
+  }
+
+  const { endTime } = snapshot.options;
+  const remaining =
+    snapshot.pendingRemaining >= 0
+      ? snapshot.pendingRemaining
+      : endTime === undefined
+      ? snapshot.duration
+      : Math.max(endTime - beginTime, 0);
+
+  restoreCountingTimer(
+    timer,
+    { ...snapshot, startTime: beginTime, remaining, cycle: 0 },
+    beginTime + remaining
+  );
+}
+
+/**
+ * Restores a counting timer whose current cycle ends at `end`.
+ * @param timer The newly created timer
+ * @param snapshot The snapshot to restore
+ * @param end The time at which the captured cycle ends
+ */
+function restoreCountingTimer(
+  timer: RxTimer,
+  snapshot: RxTimerSnapshot,
+  end: number
+): void {
+  const now = timer.now();
+  const { schedule, continue: isContinue } = snapshot.options;
+  timer.cycle = snapshot.cycle;
+
+  if (now < end) {
+    resumeCounting(timer, end, end - now);
+    return;
+  }
+
+  if (schedule) {
+    emitMissedTicks(timer, snapshot.cycle, 1);
+    timer.start();
+    return;
+  }
+
+  if (isContinue && snapshot.duration > 0) {
+    const missedTicks = 1 + Math.floor((now - end) / snapshot.duration);
+    const { repeat } = snapshot.options;
+    if (repeat !== undefined && timer.cycle + missedTicks >= repeat) {
+      // Every remaining cycle should have finished while the process was down
+      timer.cycle = repeat - 1;
+      emitMissedTicks(timer, snapshot.cycle, repeat - snapshot.cycle, true);
+      return;
+    }
+
+    const nextEnd = end + missedTicks * snapshot.duration;
+    timer.cycle += missedTicks;
+    emitMissedTicks(timer, snapshot.cycle, missedTicks);
+    resumeCounting(timer, nextEnd, nextEnd - now);
+    return;
+  }
+
+  emitMissedTicks(
+    timer,
+    snapshot.cycle,
+    1,
+    snapshot.options.repeat !== undefined
+  );
+}
+
+/**
+ * Puts the timer into the counting state with the given remaining time,
+ * without emitting START or RESUME events.
+ * @param timer The timer to resume
+ * @param deadline The time at which the cycle ends
+ * @param remaining The remaining time of the cycle
+ */
+function resumeCounting(
+  timer: RxTimer,
+  deadline: number,
+  remaining: number
+): void {
+  timer.remaining = remaining;
+  timer.deadline = deadline;
+  timer.setState(new RxTimerCountingState(timer));
+  timer.start();
+}
+
+/**
+ * Emits the ticks missed while the process was down on the scheduler of the timer,
+ * each carrying the index of the cycle that ended.
+ * @param timer The restored timer
+ * @param cycle The index of the first missed cycle
+ * @param count The number of missed ticks
+ * @param complete Whether the last cycle of a `repeat` timer was missed
+ */
+function emitMissedTicks(
+  timer: RxTimer,
+  cycle: number,
+  count: number,
+  complete: boolean = false
+): void {
+  timer.scheduler.schedule(() => {
+    for (let i = 0; i < count; i++) {
+      timer.emitEvent(RxTimerEvent.TICK, { remaining: 0, cycle: cycle + i });
+    }
+
+    if (complete) timer.emitEvent(RxTimerEvent.COMPLETE);
+  });
+}
@@ -1,5 +1,10 @@
 import { Subscription, interval } from "rxjs";
-import { RxTimerState, RxTimerStateBase } from "./timer-state";
+import { RxTimer, RxTimerEvent, RxTimerStatus } from "..";
+import {
+  MAX_SCHEDULE_DELAY,
+  RxTimerState,
+  RxTimerStateBase,
+} from "./timer-state";
 import { RxTimerCountingState } from "./timer-counting.state";
 import { take } from "rxjs/operators";
 import { RxTimerStableState } from "./timer-stable.state";
@@ -12,22 +17,44 @@ export class RxTimerCountingToBeginTimeState
   implements RxTimerState
 {
   private beginTimeSubscription: Subscription | null = null;
+  private cancelled = false;
+  /** Time left until the begin time when the wait was paused, or -1 */
+  private pausedWait: number;
+
+  /**
+   * @param timer The timer waiting for its begin time
+   * @param pausedWait The time left until the begin time of a paused wait, or -1
+   */
+  constructor(timer: RxTimer, pausedWait = -1) {
+    super(timer);
+    this.pausedWait = pausedWait;
+  }
 
   private get isCountingToBeginTime(): boolean {
     return !!this.beginTimeSubscription;
   }
 
   /**
-   * Starts counting down to the specified beginTime.
+   * Starts counting down to the specified beginTime, or to the next time
+   * matching the `schedule` option.
+   * @param awaitedTime The time to wait for instead, e.g. a restored begin time
+   * shifted by a pause
    * @method
    */
-  start(): void {
-    if (this.isCountingToBeginTime) return;
+  start(awaitedTime?: number): void {
+    if (this.isCountingToBeginTime || this.cancelled || this.isPaused()) return;
 
-    const beginTime = this.timer.options.beginTime;
-    if (!beginTime) return;
+    const beginTime = awaitedTime ?? this.timer.getBeginTime();
+    if (beginTime < 0) {
+      this.timer.setState(new RxTimerStableState(this.timer));
+      return;
+    }
 
     this.startTimerFromBeginning(beginTime);
+
+    if (this.isCountingToBeginTime) {
+      this.timer.emitEvent(RxTimerEvent.SCHEDULED);
+    }
   }
 
   /**
@@ -39,20 +66,36 @@ export class RxTimerCountingToBeginTimeState
   }
 
   /**
-   * Pauses the countdown to the specified beginTime.
+   * Pauses the countdown to the specified beginTime, keeping the time left until it.
    * @method
    */
   pause(): void {
-    this.stopCountingToBeginTime();
+    if (!this.isCountingToBeginTime) return;
+
+    this.pausedWait = Math.max(
+      this.timer.nextRunTime - this.timer.wallNow(),
+      0
+    );
+    this.beginTimeSubscription?.unsubscribe();
+    this.beginTimeSubscription = null;
+    this.timer.nextRunTime = -1;
+    // Re-entering the state notifies the change of status
+    this.timer.setState(this);
+    this.timer.emitEvent(RxTimerEvent.PAUSE);
   }
 
   /**
-   * Resumes the countdown (no action).
+   * Resumes the paused countdown, postponing the begin time by the paused time.
    * @method
    */
   resume(): void {
-    // No action if already in counting to begin time state
-    return;
+    if (!this.isPaused()) return;
+
+    const beginTime = this.timer.wallNow() + this.pausedWait;
+    this.pausedWait = -1;
+    this.startTimerFromBeginning(beginTime);
+    this.timer.setState(this);
+    this.timer.emitEvent(RxTimerEvent.RESUME);
   }
 
   /**
@@ -63,32 +106,113 @@ export class RxTimerCountingToBeginTimeState
     this.stopCountingToBeginTime();
   }
 
+  /**
+   * Adjusts the remaining time of the awaited cycle, which applies once the
+   * begin time arrives, including while the wait is paused. A cycle adjusted to
+   * zero or below ends right when it begins. A silent adjustment emits no ADJUST event.
+   * @method
+   */
+  adjust(update: (remaining: number) => number, silent = false): void {
+    if (!this.isCountingToBeginTime && !this.isPaused()) return;
+
+    const previous =
+      this.timer.pendingRemaining >= 0
+        ? this.timer.pendingRemaining
+        : this.getAwaitedCycleDuration();
+    const remaining = Math.max(update(previous), 0);
+    this.timer.pendingRemaining = remaining;
+    if (silent) return;
+
+    this.timer.emitEvent(RxTimerEvent.ADJUST, {
+      remaining,
+      adjustment: remaining - previous,
+    });
+  }
+
+  /**
+   * Releases the countdown to the specified beginTime without emitting any event.
+   * @method
+   */
+  destroy(): void {
+    this.cancelled = true;
+    this.beginTimeSubscription?.unsubscribe();
+    this.timer.nextRunTime = -1;
+  }
+
+  /**
+   * Re-arms the countdown to the begin time, which follows the wall clock,
+   * after the wall clock jumped.
+   * @method
+   */
+  resyncClock(): void {
+    if (!this.beginTimeSubscription) return;
+
+    this.beginTimeSubscription.unsubscribe();
+    this.startTimerFromBeginning(this.timer.nextRunTime);
+  }
+
   isCounting(): boolean {
     return false;
   }
 
   isStopped(): boolean {
-    return true;
+    return !this.isPaused();
   }
 
   isPaused(): boolean {
-    return false;
+    return this.pausedWait >= 0;
   }
 
   getRemainingMilliseconds(): number {
     return this.timer.remaining;
   }
 
+  getMillisecondsUntilBegin(): number {
+    if (this.isPaused()) return this.pausedWait;
+    if (!this.isCountingToBeginTime) return 0;
+
+    return Math.max(this.timer.nextRunTime - this.timer.wallNow(), 0);
+  }
+
+  getStatus(): RxTimerStatus {
+    return this.isPaused() ? RxTimerStatus.PAUSED : RxTimerStatus.SCHEDULED;
+  }
+
+  /**
+   * Calculates the duration of the awaited cycle.
+   * @private
+   */
+  private getAwaitedCycleDuration(): number {
+    const { endTime } = this.timer.options;
+    if (endTime === undefined) return this.timer.duration;
+
+    const beginTime = this.isPaused()
+      ? this.timer.wallNow() + this.pausedWait
+      : this.timer.nextRunTime;
+    return Math.max(endTime - beginTime, 0);
+  }
+
   /**
    * Stops the countdown to the specified beginTime.
-   * Unsubscribes from the interval and sets the timer state to stable.
+   * Unsubscribes from the interval, sets the timer state to stable and emits
+   * the SCHEDULE_CANCELLED event.
    * @private
    */
   private stopCountingToBeginTime(): void {
-    if (!this.isCountingToBeginTime) return;
+    // A scheduled timer waits here between cycles, and it can be stopped
+    // by a TICK subscriber before the wait is armed
+    const isPendingSchedule = !!this.timer.options.schedule && !this.cancelled;
+    if (!this.isCountingToBeginTime && !this.isPaused() && !isPendingSchedule) {
+      return;
+    }
 
+    this.cancelled = true;
+    this.pausedWait = -1;
     this.beginTimeSubscription?.unsubscribe();
+    this.timer.nextRunTime = -1;
+    this.timer.pendingRemaining = -1;
     this.timer.setState(new RxTimerStableState(this.timer));
+    this.timer.emitEvent(RxTimerEvent.SCHEDULE_CANCELLED);
   }
 
   /**
@@ -98,15 +222,25 @@ export class RxTimerCountingToBeginTimeState
    * @private
    */
   private startTimerFromBeginning(beginTime: number): void {
-    const timeDifferenceToBeginTimer = beginTime - new Date().getTime();
+    const timeDifferenceToBeginTimer = beginTime - this.timer.wallNow();
 
     if (timeDifferenceToBeginTimer < 0) {
+      this.timer.nextRunTime = -1;
       this.timer.setState(new RxTimerCountingState(this.timer));
       this.timer.start();
     } else {
-      this.beginTimeSubscription = interval(timeDifferenceToBeginTimer)
+      // Waits longer than the scheduler can arm at once are split into several delays
+      const delay = Math.min(timeDifferenceToBeginTimer, MAX_SCHEDULE_DELAY);
+      this.timer.nextRunTime = beginTime;
+      this.beginTimeSubscription = interval(delay, this.timer.scheduler)
         .pipe(take(1))
         .subscribe(() => {
+          if (delay < timeDifferenceToBeginTimer) {
+            this.startTimerFromBeginning(beginTime);
+            return;
+          }
+
+          this.timer.nextRunTime = -1;
           this.timer.setState(new RxTimerCountingState(this.timer));
           this.timer.start();
         });
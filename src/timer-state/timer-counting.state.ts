@@ -1,8 +1,13 @@
 import { Subscription, interval } from "rxjs";
 import { take } from "rxjs/operators";
-import { RxTimerEvent } from "..";
+import { RxTimerEvent, RxTimerStatus } from "..";
+import { RxTimerCountingToBeginTimeState } from "./timer-counting-to-begin-time.state";
 import { RxTimerStableState } from "./timer-stable.state";
-import { RxTimerState, RxTimerStateBase } from "./timer-state";
+import {
+  MAX_SCHEDULE_DELAY,
+  RxTimerState,
+  RxTimerStateBase,
+} from "./timer-state";
 
 /**
  * Represents the state of the timer when it's actively counting down.
@@ -16,15 +21,31 @@ export class RxTimerCountingState
    * Action to start the timer (no action if already counting).
    */
   start(): void {
+    if (this.isCounting()) return;
+
     // Start counting
     const isResume = this.timer.remaining > 0;
+    const { endTime, shiftEndTimeOnPause } = this.timer.options;
     if (!isResume) {
-      this.timer.remaining = this.timer.duration;
-      // Reset the start time if not resuming the timer
-      this.timer.emitEvent(RxTimerEvent.START);
+      this.timer.cycle = 0;
+      this.timer.remaining =
+        this.timer.pendingRemaining >= 0
+          ? this.timer.pendingRemaining
+          : endTime === undefined
+          ? this.timer.resolveCycleDuration()
+          : Math.max(endTime - this.timer.now(), 0);
+      this.timer.pendingRemaining = -1;
+    } else if (endTime !== undefined && !shiftEndTimeOnPause) {
+      // The deadline stays fixed, so the paused time is not given back
+      this.timer.remaining = this.timer.deadline - this.timer.now();
     }
 
     this.startTimerImmediately(this.timer.remaining);
+
+    // Emit after arming so subscribers already observe a counting timer
+    if (!isResume) {
+      this.timer.emitEvent(RxTimerEvent.START);
+    }
   }
 
   /**
@@ -34,10 +55,14 @@ export class RxTimerCountingState
   stop(): void {
     if (!this.isCounting()) return;
 
+    const detail = {
+      remaining: this.getRemainingMilliseconds(),
+      cycle: this.timer.cycle,
+    };
     this.countingSubscription?.unsubscribe();
     this.timer.resetTimer();
     this.timer.setState(new RxTimerStableState(this.timer));
-    this.timer.emitEvent(RxTimerEvent.STOP);
+    this.timer.emitEvent(RxTimerEvent.STOP, detail);
   }
 
   /**
@@ -49,7 +74,7 @@ export class RxTimerCountingState
     this.countingSubscription?.unsubscribe();
 
     this.timer.remaining =
-      this.timer.remaining - (new Date().getTime() - this.timer.startTime);
+      this.timer.remaining - (this.timer.now() - this.timer.startTime);
 
     this.timer.setState(new RxTimerStableState(this.timer));
     this.timer.emitEvent(RxTimerEvent.PAUSE);
@@ -70,12 +95,71 @@ export class RxTimerCountingState
   reset(): void {
     if (!this.isCounting()) return;
 
+    const detail = {
+      remaining: this.getRemainingMilliseconds(),
+      cycle: this.timer.cycle,
+    };
     this.countingSubscription?.unsubscribe();
     this.timer.resetTimer();
     this.timer.setState(new RxTimerStableState(this.timer));
-    this.timer.emitEvent(RxTimerEvent.RESET);
+    this.timer.emitEvent(RxTimerEvent.RESET, detail);
+  }
+
+  /**
+   * Action to adjust the remaining time of the current cycle.
+   * Re-arms the countdown with the adjusted time, or completes the cycle
+   * immediately if no time remains. A silent adjustment emits no ADJUST event.
+   */
+  adjust(update: (remaining: number) => number, silent = false): void {
+    if (!this.isCounting()) return;
+
+    const previous = this.getRemainingMilliseconds();
+    const remaining = update(previous);
+    this.countingSubscription?.unsubscribe();
+
+    if (remaining > 0) {
+      this.startTimerImmediately(remaining);
+      if (!silent) {
+        this.timer.emitEvent(RxTimerEvent.ADJUST, {
+          adjustment: remaining - previous,
+        });
+      }
+      return;
+    }
+
+    this.startExpiredCycle();
+    if (!silent) {
+      this.timer.emitEvent(RxTimerEvent.ADJUST, {
+        adjustment: remaining - previous,
+      });
+    }
+    // An ADJUST subscriber may have stopped or paused the timer
+    if (this.countingSubscription?.closed) return;
+
+    this.handleTick();
   }
 
+  /**
+   * Completes the current cycle immediately, as if its countdown had reached zero.
+   */
+  expire(): void {
+    this.countingSubscription?.unsubscribe();
+    this.startExpiredCycle();
+    this.handleTick();
+  }
+
+  /**
+   * Releases the countdown without emitting any event.
+   */
+  destroy(): void {
+    this.countingSubscription?.unsubscribe();
+  }
+
+  /**
+   * Keeps the countdown, which is armed with a monotonic delay.
+   */
+  resyncClock(): void {}
+
   isCounting(): boolean {
     // Checks if timer is actively counting
     return !!this.countingSubscription;
@@ -91,29 +175,175 @@ export class RxTimerCountingState
 
   getRemainingMilliseconds(): number {
     return this.countingSubscription
-      ? this.timer.remaining - (new Date().getTime() - this.timer.startTime)
+      ? this.timer.remaining - (this.timer.now() - this.timer.startTime)
       : this.timer.remaining;
   }
 
+  getMillisecondsUntilBegin(): number {
+    return 0;
+  }
+
+  getStatus(): RxTimerStatus {
+    return RxTimerStatus.COUNTING;
+  }
+
   /**
    * Starts the countdown timer.
    * Handles counting down based on remaining time and emits TICK events.
    */
   private startTimerImmediately(duration: number): void {
-    this.timer.startTime = new Date().getTime();
+    this.timer.startTime = this.timer.now();
     this.timer.remaining = duration;
-    this.countingSubscription = interval(this.timer.remaining)
+    this.timer.deadline = this.timer.startTime + duration;
+    // Countdowns longer than the scheduler can arm at once are split into several delays
+    const delay = Math.min(duration, MAX_SCHEDULE_DELAY);
+    this.countingSubscription = interval(delay, this.timer.scheduler)
       .pipe(take(1))
       .subscribe(() => {
-        if (this.timer.options.continue) {
-          this.timer.initTimer();
-          this.timer.emitEvent(RxTimerEvent.TICK);
-          this.startTimerImmediately(this.timer.duration);
+        if (duration > delay) {
+          this.startTimerImmediately(duration - delay);
         } else {
-          this.timer.resetTimer();
-          this.timer.emitEvent(RxTimerEvent.TICK);
-          this.timer.setState(new RxTimerStableState(this.timer));
+          this.handleTick();
         }
       });
   }
+
+  /**
+   * Marks the current cycle as counted down to zero, keeping an open subscription
+   * so that subscribers stopping the timer can be detected.
+   */
+  private startExpiredCycle(): void {
+    this.timer.startTime = this.timer.now();
+    this.timer.remaining = 0;
+    this.timer.deadline = this.timer.startTime;
+    this.countingSubscription = new Subscription();
+  }
+
+  /**
+   * Handles the end of the current cycle: emits the TICK event and starts the
+   * next cycle, waits for the next scheduled time or finishes the timer.
+   */
+  private handleTick(): void {
+    if (this.timer.options.schedule) {
+      this.timer.resetTimer();
+      // Wait for the next scheduled time, unless a TICK subscriber stops the timer
+      const scheduledState = new RxTimerCountingToBeginTimeState(this.timer);
+      this.timer.setState(scheduledState);
+      this.timer.emitEvent(RxTimerEvent.TICK);
+      scheduledState.start();
+    } else if (this.timer.options.continue && !this.timer.isLastCycle()) {
+      const missedCycles = this.getMissedCycles();
+      const { deadline } = this.timer;
+      // Resolve the following cycles first, so that TICK subscribers observe the
+      // duration of the next cycle, as when a paused cycle is completed
+      const missedDuration = this.resolveMissedCycleDurations(missedCycles);
+      const nextDuration = this.timer.resolveCycleDuration();
+      this.timer.initTimer();
+      this.timer.emitEvent(RxTimerEvent.TICK, { remaining: 0 });
+      // A TICK subscriber may have stopped or paused the timer
+      if (this.countingSubscription?.closed) return;
+
+      this.timer.cycle++;
+      if (missedCycles > 0 && !this.handleMissedCycles(missedCycles)) {
+        return;
+      }
+
+      this.startTimerImmediately(
+        this.isFixedRate()
+          ? deadline + missedDuration + nextDuration - this.timer.now()
+          : nextDuration
+      );
+    } else {
+      this.finish();
+    }
+  }
+
+  /**
+   * Finishes the last cycle and settles the timer in the stable state.
+   */
+  private finish(): void {
+    const { cycle } = this.timer;
+    this.timer.resetTimer();
+    // Keep the index of the finished cycle for TICK and COMPLETE subscribers
+    this.timer.cycle = cycle;
+    // Settle the state first so TICK subscribers can start the timer again
+    this.timer.setState(new RxTimerStableState(this.timer));
+    this.timer.emitEvent(RxTimerEvent.TICK);
+
+    // A TICK subscriber may have started the timer again
+    if (
+      this.timer.options.repeat !== undefined &&
+      this.timer.getStatus() === RxTimerStatus.IDLE
+    ) {
+      this.timer.emitEvent(RxTimerEvent.COMPLETE);
+    }
+  }
+
+  /**
+   * Checks if the cycles are anchored to the previous deadline, so that a late
+   * tick does not postpone the following ones.
+   */
+  private isFixedRate(): boolean {
+    const { endTime, continueMode } = this.timer.options;
+    return endTime !== undefined || continueMode === "fixed-rate";
+  }
+
+  /**
+   * Calculates the number of whole cycles that passed since the deadline of the
+   * current cycle, e.g. after the event loop was blocked.
+   */
+  private getMissedCycles(): number {
+    if (!this.isFixedRate() || this.timer.duration <= 0) return 0;
+
+    const lateness = this.timer.now() - this.timer.deadline;
+    const missedCycles = Math.max(
+      Math.floor(lateness / this.timer.duration),
+      0
+    );
+
+    // The last cycle allowed by the `repeat` option is never skipped
+    const { repeat } = this.timer.options;
+    return repeat === undefined
+      ? missedCycles
+      : Math.min(missedCycles, Math.max(repeat - this.timer.cycle - 2, 0));
+  }
+
+  /**
+   * Emits a TICK event for every missed cycle with the `catchUp` option, or
+   * skips them and emits the MISSED event otherwise.
+   * @param missedCycles The number of missed cycles
+   * @returns {boolean} Returns false if a subscriber stopped or paused the timer.
+   */
+  private handleMissedCycles(missedCycles: number): boolean {
+    if (this.timer.options.catchUp) {
+      for (let i = 0; i < missedCycles; i++) {
+        this.timer.emitEvent(RxTimerEvent.TICK, { remaining: 0 });
+        if (this.countingSubscription?.closed) return false;
+
+        this.timer.cycle++;
+      }
+    } else {
+      this.timer.missed = missedCycles;
+      this.timer.cycle += missedCycles;
+      this.timer.emitEvent(RxTimerEvent.MISSED);
+      if (this.countingSubscription?.closed) return false;
+    }
+
+    return true;
+  }
+
+  /**
+   * Resolves the duration of every missed cycle, as the duration function
+   * advances once per cycle.
+   * @param missedCycles The number of cycles missed since the current deadline
+   * @returns {number} The total duration of the missed cycles.
+   */
+  private resolveMissedCycleDurations(missedCycles: number): number {
+    let missedDuration = 0;
+    for (let i = 0; i < missedCycles; i++) {
+      missedDuration += this.timer.resolveCycleDuration();
+    }
+
+    return missedDuration;
+  }
 }
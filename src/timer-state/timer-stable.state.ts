@@ -1,4 +1,4 @@
-import { RxTimerEvent } from "..";
+import { RxTimerEvent, RxTimerStatus } from "..";
 import { RxTimerCountingToBeginTimeState } from "./timer-counting-to-begin-time.state";
 import { RxTimerCountingState } from "./timer-counting.state";
 import { RxTimerStateBase, RxTimerState } from "./timer-state";
@@ -13,7 +13,7 @@ export class RxTimerStableState extends RxTimerStateBase implements RxTimerState
    * Changes the state to counting if not already counting and emits START event.
    */
   start(): void {
-    if (this.timer.options.beginTime) {
+    if (this.timer.options.beginTime || this.timer.options.schedule) {
       this.timer.setState(new RxTimerCountingToBeginTimeState(this.timer));
       this.timer.start();
     } else {
@@ -30,8 +30,10 @@ export class RxTimerStableState extends RxTimerStateBase implements RxTimerState
     // If not paused, do nothing
     if (!this.isPaused()) return;
 
+    const detail = { remaining: this.timer.remaining, cycle: this.timer.cycle };
     this.timer.resetTimer();
-    this.timer.emitEvent(RxTimerEvent.STOP);
+    this.timer.setState(new RxTimerStableState(this.timer));
+    this.timer.emitEvent(RxTimerEvent.STOP, detail);
   }
 
   /**
@@ -62,10 +64,66 @@ export class RxTimerStableState extends RxTimerStateBase implements RxTimerState
     // If not paused, do nothing
     if (!this.isPaused()) return;
 
+    const detail = { remaining: this.timer.remaining, cycle: this.timer.cycle };
     this.timer.resetTimer();
-    this.timer.emitEvent(RxTimerEvent.RESET);
+    this.timer.setState(new RxTimerStableState(this.timer));
+    this.timer.emitEvent(RxTimerEvent.RESET, detail);
   }
 
+  /**
+   * Action to adjust the remaining time of a paused timer.
+   * Completes the cycle immediately if no time remains; the following cycle of a
+   * `continue` timer stays paused. A silent adjustment emits no ADJUST event.
+   */
+  adjust(update: (remaining: number) => number, silent = false): void {
+    // If not paused, do nothing
+    if (!this.isPaused()) return;
+
+    const previous = this.timer.remaining;
+    const remaining = update(previous);
+    const adjustment = remaining - previous;
+    // A deadline kept fixed across pauses moves along with the adjustment
+    this.timer.deadline += adjustment;
+
+    if (remaining > 0) {
+      this.timer.remaining = remaining;
+      if (!silent) this.timer.emitEvent(RxTimerEvent.ADJUST, { adjustment });
+      return;
+    }
+
+    if (!silent) {
+      this.timer.emitEvent(RxTimerEvent.ADJUST, { remaining: 0, adjustment });
+    }
+    // An ADJUST subscriber may have stopped the timer
+    if (!this.isPaused()) return;
+
+    const { cycle } = this.timer;
+    const isContinued =
+      this.timer.options.continue &&
+      !this.timer.options.schedule &&
+      !this.timer.isLastCycle();
+
+    if (isContinued) {
+      this.timer.cycle++;
+      this.timer.remaining = this.timer.resolveCycleDuration();
+      this.timer.deadline = this.timer.now() + this.timer.remaining;
+      this.timer.emitEvent(RxTimerEvent.TICK, { remaining: 0, cycle });
+    } else {
+      // The cycle ends without resuming, so the counting state is never entered
+      new RxTimerCountingState(this.timer).expire();
+    }
+  }
+
+  /**
+   * Nothing to release, as the stable state holds no subscription.
+   */
+  destroy(): void {}
+
+  /**
+   * Nothing to re-arm, as the stable state holds no subscription.
+   */
+  resyncClock(): void {}
+
   isCounting(): boolean {
     // The stable state is already in a stopped state, thus always returning false
     return false;
@@ -85,4 +143,12 @@ export class RxTimerStableState extends RxTimerStateBase implements RxTimerState
   getRemainingMilliseconds(): number {
     return this.timer.remaining;
   }
+
+  getMillisecondsUntilBegin(): number {
+    return 0;
+  }
+
+  getStatus(): RxTimerStatus {
+    return this.isPaused() ? RxTimerStatus.PAUSED : RxTimerStatus.IDLE;
+  }
 }
\ No newline at end of file
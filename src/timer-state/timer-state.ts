@@ -1,4 +1,7 @@
-import { RxTimer } from "..";
+import { RxTimer, RxTimerEvent, RxTimerStatus } from "..";
+
+/** Longest delay a scheduler can arm at once (the maximum of `setTimeout`) */
+export const MAX_SCHEDULE_DELAY = 2147483647;
 
 /** Represents the state of the timer */
 export interface RxTimerState {
@@ -7,12 +10,43 @@ export interface RxTimerState {
   pause(): void;
   resume(): void;
   reset(): void;
+  adjust(update: (remaining: number) => number, silent?: boolean): void;
+  destroy(): void;
+  resyncClock(): void;
   isCounting(): boolean;
   isStopped(): boolean;
   isPaused(): boolean;
   getRemainingMilliseconds(): number;
+  getMillisecondsUntilBegin(): number;
+  getStatus(): RxTimerStatus;
 }
 
 export abstract class RxTimerStateBase {
   constructor(protected timer: RxTimer) {}
 }
+
+/**
+ * Checks if the event ends the last cycle of the timer: the 'Complete' event, or
+ * the 'Tick' event of a timer without the `schedule` and `repeat` options, unless
+ * a previous 'Tick' subscriber started the timer again.
+ * @param timer The timer emitting the event
+ * @param event The emitted event
+ */
+export function isFinishingEvent(timer: RxTimer, event: RxTimerEvent): boolean {
+  switch (event) {
+    case RxTimerEvent.COMPLETE:
+      return true;
+    case RxTimerEvent.TICK: {
+      // Scheduled timers wait for the next scheduled time after every tick, and
+      // the last tick of repeated timers is followed by the 'Complete' event
+      const { schedule, repeat } = timer.options;
+      return (
+        !schedule &&
+        repeat === undefined &&
+        timer.getStatus() === RxTimerStatus.IDLE
+      );
+    }
+    default:
+      return false;
+  }
+}
@@ -0,0 +1,173 @@
+import { TestScheduler } from "rxjs/testing";
+import { BroadcastChannel } from "worker_threads";
+import {
+  RxTimer,
+  RxTimerEvent,
+  RxTimerOptions,
+  RxTimerStatus,
+  RxTimerSync,
+} from "..";
+import { createTestScheduler } from "../test-helpers";
+
+describe("RxTimerSync", () => {
+  let scheduler: TestScheduler;
+  let syncs: RxTimerSync[];
+  let channelName: string;
+  let channelIndex = 0;
+
+  /** Waits for the messages posted on the channels to be delivered */
+  const deliver = () => new Promise((resolve) => setTimeout(resolve, 20));
+
+  /** Advances the virtual time to the given frame */
+  const advanceTo = (frame: number) => {
+    scheduler.schedule(() => {}, frame - scheduler.now());
+    scheduler.maxFrames = frame;
+    scheduler.flush();
+  };
+
+  const createSync = (
+    role: "leader" | "follower",
+    duration = 50,
+    tolerance?: number,
+    options: RxTimerOptions = {}
+  ) => {
+    const timer = new RxTimer(duration, { scheduler, ...options });
+    const sync = new RxTimerSync(timer, {
+      channel: channelName,
+      // Node.js 16 has no global BroadcastChannel
+      createChannel: (name) => new BroadcastChannel(name),
+      role,
+      tolerance,
+    });
+    syncs.push(sync);
+    return timer;
+  };
+
+  beforeEach(() => {
+    scheduler = createTestScheduler();
+    syncs = [];
+    channelName = `rx-timer-sync-${channelIndex++}`;
+  });
+
+  afterEach(() => syncs.forEach((sync) => sync.close()));
+
+  it("should mirror the leader on the followers", async () => {
+    const leader = createSync("leader");
+    const follower = createSync("follower");
+    await deliver();
+
+    leader.start();
+    await deliver();
+    expect(follower.getStatus()).toBe(RxTimerStatus.COUNTING);
+
+    advanceTo(20);
+    leader.pause();
+    await deliver();
+    expect(follower.isPaused()).toBe(true);
+    expect(follower.getRemainingMilliseconds()).toBe(30);
+
+    leader.stop();
+    await deliver();
+    expect(follower.isStopped()).toBe(true);
+  });
+
+  it("should forward the calls of a follower to the leader", async () => {
+    const leader = createSync("leader");
+    const follower = createSync("follower");
+    await deliver();
+
+    follower.start();
+    await deliver();
+    expect(leader.isCounting()).toBe(true);
+
+    advanceTo(20);
+    follower.pause();
+    await deliver();
+    expect(leader.isPaused()).toBe(true);
+    expect(leader.getRemainingMilliseconds()).toBe(30);
+
+    follower.resume();
+    await deliver();
+    expect(leader.isCounting()).toBe(true);
+  });
+
+  it("should align a follower joining late to the remaining time of the leader", async () => {
+    const leader = createSync("leader", 1000);
+    leader.start();
+    advanceTo(400);
+
+    const follower = createSync("follower", 1000);
+    const events: RxTimerEvent[] = [];
+    follower.onEvent().subscribe((event) => events.push(event));
+    await deliver();
+
+    expect(follower.isCounting()).toBe(true);
+    expect(follower.getRemainingMilliseconds()).toBe(600);
+    expect(events).toEqual([RxTimerEvent.START, RxTimerEvent.ADJUST]);
+  });
+
+  it("should tick a follower once the leader ticked", async () => {
+    const leader = createSync("leader");
+    // The follower keeps its own remaining time and lags behind the leader
+    const follower = createSync("follower", 1000, Infinity);
+    const events: RxTimerEvent[] = [];
+    follower.onEvent().subscribe((event) => events.push(event));
+    await deliver();
+
+    leader.start();
+    await deliver();
+    advanceTo(50);
+    await deliver();
+
+    expect(follower.getStatus()).toBe(RxTimerStatus.IDLE);
+    expect(events).toEqual([
+      RxTimerEvent.START,
+      RxTimerEvent.ADJUST,
+      RxTimerEvent.TICK,
+    ]);
+  });
+
+  it("should pause and resume the wait for beginTime on the followers", async () => {
+    const options = { beginTime: 100 };
+    const leader = createSync("leader", 50, undefined, options);
+    const follower = createSync("follower", 50, undefined, options);
+    const events: RxTimerEvent[] = [];
+    follower.onEvent().subscribe((event) => events.push(event));
+    await deliver();
+
+    leader.start();
+    await deliver();
+    expect(follower.isScheduled()).toBe(true);
+
+    advanceTo(30);
+    leader.pause();
+    await deliver();
+    expect(follower.isPaused()).toBe(true);
+    expect(follower.getMillisecondsUntilBegin()).toBe(70);
+
+    leader.resume();
+    await deliver();
+    expect(follower.isScheduled()).toBe(true);
+    expect(events).toEqual([
+      RxTimerEvent.SCHEDULED,
+      RxTimerEvent.PAUSE,
+      RxTimerEvent.RESUME,
+    ]);
+  });
+
+  it("should forward the cancellation of the wait for beginTime to the leader", async () => {
+    const options = { beginTime: 100 };
+    const leader = createSync("leader", 50, undefined, options);
+    const follower = createSync("follower", 50, undefined, options);
+    await deliver();
+
+    follower.start();
+    await deliver();
+    expect(leader.isScheduled()).toBe(true);
+
+    follower.stop();
+    await deliver();
+    expect(leader.getStatus()).toBe(RxTimerStatus.IDLE);
+    expect(follower.getStatus()).toBe(RxTimerStatus.IDLE);
+  });
+});
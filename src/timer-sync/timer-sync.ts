@@ -0,0 +1,266 @@
+import { Subscription } from "rxjs";
+import { RxTimer, RxTimerEvent, RxTimerEventDetail, RxTimerStatus } from "..";
+
+/** Role of a context in the synchronization */
+export type RxTimerSyncRole = "leader" | "follower";
+
+/** Command sent by a follower to the leader */
+export type RxTimerSyncCommand =
+  | "start"
+  | "pause"
+  | "resume"
+  | "stop"
+  | "reset";
+
+/**
+ * Channel carrying the messages between the contexts, such as a `BroadcastChannel`
+ * of the browser or of `worker_threads`.
+ */
+export type RxTimerSyncChannel = {
+  onmessage: ((event: MessageEvent) => void) | null;
+  postMessage(message: unknown): void;
+  close(): void;
+};
+
+/** Options of 'RxTimerSync' */
+export type RxTimerSyncOptions = {
+  /** Name of the `BroadcastChannel` to open, or an already opened channel */
+  channel: string | RxTimerSyncChannel;
+  /**
+   * Opens the channel of the given name (a global `BroadcastChannel` by default),
+   * e.g. with the `BroadcastChannel` of `worker_threads` on Node.js 16
+   */
+  createChannel?: (name: string) => RxTimerSyncChannel;
+  /** Role of the context (default 'follower') */
+  role?: RxTimerSyncRole;
+  /**
+   * Difference of remaining time in milliseconds tolerated before a follower
+   * adjusts its timer to the leader (default 50)
+   */
+  tolerance?: number;
+};
+
+/** State of the leader timer, broadcast to the followers */
+type RxTimerSyncStateMessage = {
+  type: "state";
+  /** Event emitted by the leader, or null when the state is only requested */
+  event: RxTimerEvent | null;
+  /** Index of the cycle of the event */
+  eventCycle: number;
+  status: RxTimerStatus;
+  remaining: number;
+  cycle: number;
+};
+
+/** Message exchanged between the contexts */
+type RxTimerSyncMessage =
+  | RxTimerSyncStateMessage
+  | { type: "command"; command: RxTimerSyncCommand }
+  | { type: "sync" };
+
+/**
+ * Synchronizes the timers of several contexts, such as browser tabs or worker
+ * threads, through a `BroadcastChannel`. The leader context owns the
+ * authoritative state and broadcasts it after every event, while followers
+ * forward their 'start()', 'pause()', 'resume()', 'stop()' and 'reset()' calls
+ * to the leader and update their timer from its state.
+ */
+export class RxTimerSync {
+  /** Channel shared with the other contexts */
+  private channel: RxTimerSyncChannel;
+  /** Whether the channel was opened by the synchronization */
+  private ownsChannel: boolean;
+  /** Subscription to the events of the timer */
+  private subscription: Subscription;
+  /** Whether a follower is updating its timer from the leader */
+  private applying = false;
+
+  readonly role: RxTimerSyncRole;
+  readonly tolerance: number;
+
+  /**
+   * @param timer The timer of this context
+   * @param options The channel and role of this context
+   */
+  constructor(readonly timer: RxTimer, options: RxTimerSyncOptions) {
+    const {
+      channel,
+      createChannel = (name) => new BroadcastChannel(name),
+      role = "follower",
+      tolerance = 50,
+    } = options;
+    this.role = role;
+    this.tolerance = tolerance;
+    this.ownsChannel = typeof channel === "string";
+    this.channel =
+      typeof channel === "string" ? createChannel(channel) : channel;
+    this.channel.onmessage = (event) => this.handleMessage(event.data);
+
+    if (role === "leader") {
+      this.subscription = timer
+        .onEventDetail()
+        .subscribe((detail) => this.postState(detail));
+      this.postState(null);
+    } else {
+      this.subscription = timer.onEvent().subscribe((event) => {
+        const command = getEventCommand(event);
+        if (command && !this.applying) this.post({ type: "command", command });
+      });
+      this.post({ type: "sync" });
+    }
+  }
+
+  /**
+   * Checks if this context is the leader.
+   * @returns {boolean} Returns true if this context is the leader; otherwise, returns false.
+   */
+  isLeader(): boolean {
+    return this.role === "leader";
+  }
+
+  /**
+   * Stops the synchronization, closing the channel unless it was provided.
+   * The timer itself keeps running.
+   */
+  close(): void {
+    this.subscription.unsubscribe();
+    this.channel.onmessage = null;
+    if (this.ownsChannel) this.channel.close();
+  }
+
+  /**
+   * Handles a message of another context.
+   * @param message The received message
+   */
+  private handleMessage(message: RxTimerSyncMessage): void {
+    if (this.role === "leader") {
+      if (message.type === "command") this.applyCommand(message.command);
+      if (message.type !== "state") this.postState(null);
+    } else if (message.type === "state") {
+      this.applying = true;
+      try {
+        this.applyState(message);
+      } finally {
+        this.applying = false;
+      }
+    }
+  }
+
+  /**
+   * Applies the command of a follower to the timer of the leader.
+   * @param command The command to apply
+   */
+  private applyCommand(command: RxTimerSyncCommand): void {
+    switch (command) {
+      case "start":
+        this.timer.start();
+        break;
+      case "pause":
+        this.timer.pause();
+        break;
+      case "resume":
+        this.timer.resume();
+        break;
+      case "stop":
+        this.timer.stop();
+        break;
+      case "reset":
+        this.timer.reset();
+        break;
+    }
+  }
+
+  /**
+   * Updates the timer of a follower from the state of the leader.
+   * @param message The state of the leader
+   */
+  private applyState(message: RxTimerSyncStateMessage): void {
+    const { timer } = this;
+    if (
+      message.event === RxTimerEvent.TICK &&
+      timer.isCounting() &&
+      timer.cycle <= message.eventCycle
+    ) {
+      // The leader ticked first: tick now instead of waiting for the local deadline
+      timer.setRemaining(0);
+    }
+
+    const status = timer.getStatus();
+    switch (message.status) {
+      case RxTimerStatus.IDLE:
+        if (status !== RxTimerStatus.IDLE) timer.stop();
+        return;
+      case RxTimerStatus.SCHEDULED:
+        // A follower whose wait is paused resumes it, as the leader did
+        if (status === RxTimerStatus.PAUSED) timer.resume();
+        if (timer.isScheduled()) return;
+        if (timer.getStatus() !== RxTimerStatus.IDLE) timer.stop();
+        timer.start();
+        return;
+      case RxTimerStatus.COUNTING:
+        // A scheduled follower starts counting on its own at the begin time
+        if (status === RxTimerStatus.PAUSED) timer.resume();
+        if (status === RxTimerStatus.IDLE) timer.start();
+        break;
+      case RxTimerStatus.PAUSED:
+        if (status === RxTimerStatus.IDLE) timer.start();
+        // Pausing also applies to the wait for `beginTime`
+        if (timer.isCounting() || timer.isScheduled()) timer.pause();
+        break;
+    }
+
+    if (timer.getStatus() !== message.status) return;
+
+    timer.cycle = message.cycle;
+    const difference = timer.getRemainingMilliseconds() - message.remaining;
+    if (Math.abs(difference) > this.tolerance) {
+      timer.setRemaining(message.remaining);
+    }
+  }
+
+  /**
+   * Broadcasts the state of the leader timer.
+   * @param detail The details of the emitted event, or null when the state is requested
+   */
+  private postState(detail: RxTimerEventDetail | null): void {
+    this.post({
+      type: "state",
+      event: detail ? detail.type : null,
+      eventCycle: detail ? detail.cycle : -1,
+      status: this.timer.getStatus(),
+      remaining: this.timer.getRemainingMilliseconds(),
+      cycle: this.timer.cycle,
+    });
+  }
+
+  /**
+   * Posts a message to the other contexts.
+   * @param message The message to post
+   */
+  private post(message: RxTimerSyncMessage): void {
+    this.channel.postMessage(message);
+  }
+}
+
+/**
+ * Retrieves the command forwarding a control event of a follower to the leader.
+ * @param event The event of the follower
+ */
+function getEventCommand(event: RxTimerEvent): RxTimerSyncCommand | null {
+  switch (event) {
+    case RxTimerEvent.START:
+    case RxTimerEvent.SCHEDULED:
+      return "start";
+    case RxTimerEvent.PAUSE:
+      return "pause";
+    case RxTimerEvent.RESUME:
+      return "resume";
+    case RxTimerEvent.STOP:
+    case RxTimerEvent.SCHEDULE_CANCELLED:
+      return "stop";
+    case RxTimerEvent.RESET:
+      return "reset";
+    default:
+      return null;
+  }
+}
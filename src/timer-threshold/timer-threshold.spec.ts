@@ -0,0 +1,196 @@
+import { TestScheduler } from "rxjs/testing";
+import { RxIdleTimer, RxTimer, RxTimerEvent, RxTimerThreshold } from "..";
+import { createTestScheduler, recordEvents } from "../test-helpers";
+
+describe("thresholds", () => {
+  let scheduler: TestScheduler;
+  let crossings: [number, number][];
+
+  const watch = (timer: RxTimer, threshold: RxTimerThreshold) =>
+    timer
+      .onThreshold(threshold)
+      .subscribe((remaining) => crossings.push([remaining, scheduler.now()]));
+
+  beforeEach(() => {
+    scheduler = createTestScheduler();
+    crossings = [];
+  });
+
+  describe("onThreshold", () => {
+    it("should emit when the remaining time crosses the threshold", () => {
+      const timer = new RxTimer(100, { scheduler });
+      watch(timer, 30);
+
+      timer.start();
+      scheduler.flush();
+
+      expect(crossings).toEqual([[30, 70]]);
+    });
+
+    it("should emit when the percentage of the cycle is done", () => {
+      const timer = new RxTimer(200, { scheduler });
+      watch(timer, { percent: 25 });
+
+      timer.start();
+      scheduler.flush();
+
+      expect(crossings).toEqual([[150, 50]]);
+    });
+
+    it("should emit once per cycle of a continue timer", () => {
+      const timer = new RxTimer(100, { scheduler, continue: true, repeat: 3 });
+      watch(timer, 30);
+
+      timer.start();
+      scheduler.flush();
+
+      expect(crossings).toEqual([
+        [30, 70],
+        [30, 170],
+        [30, 270],
+      ]);
+    });
+
+    it("should postpone the threshold while paused", () => {
+      const timer = new RxTimer(100, { scheduler });
+      watch(timer, 30);
+
+      timer.start();
+      scheduler.schedule(() => timer.pause(), 60);
+      scheduler.schedule(() => timer.resume(), 100);
+      scheduler.flush();
+
+      expect(crossings).toEqual([[30, 110]]);
+    });
+
+    it("should emit a threshold skipped by an adjustment only once", () => {
+      const timer = new RxTimer(100, { scheduler });
+      watch(timer, 30);
+
+      timer.start();
+      scheduler.schedule(() => timer.subtractTime(60), 20);
+      scheduler.schedule(() => timer.addTime(50), 40);
+      scheduler.flush();
+
+      expect(crossings).toEqual([[20, 20]]);
+    });
+
+    it("should emit a threshold reached by the end of the cycle", () => {
+      const timer = new RxTimer(100, { scheduler });
+      watch(timer, 0);
+
+      timer.start();
+      scheduler.schedule(() => timer.pause(), 50);
+      scheduler.schedule(() => timer.setRemaining(0), 60);
+      scheduler.flush();
+
+      expect(crossings).toEqual([[0, 60]]);
+    });
+
+    it("should emit again after a restart", () => {
+      const timer = new RxTimer(100, { scheduler });
+      watch(timer, 30);
+
+      timer.start();
+      scheduler.schedule(() => timer.stop(), 80);
+      scheduler.schedule(() => timer.start(), 100);
+      scheduler.flush();
+
+      expect(crossings).toEqual([
+        [30, 70],
+        [30, 170],
+      ]);
+    });
+
+    it("should measure the percentage on the length of an endTime cycle", () => {
+      const timer = new RxTimer(100, { scheduler, endTime: 200 });
+      watch(timer, { percent: 50 });
+
+      timer.start();
+      scheduler.flush();
+
+      expect(crossings).toEqual([[100, 100]]);
+    });
+
+    it("should measure the percentage on the length of an adjusted awaited cycle", () => {
+      const timer = new RxTimer(100, { scheduler, beginTime: 50 });
+      watch(timer, { percent: 50 });
+
+      timer.start();
+      scheduler.schedule(() => timer.setRemaining(200), 10);
+      scheduler.flush();
+
+      expect(crossings).toEqual([[100, 150]]);
+    });
+
+    it("should re-arm the threshold when an idle timer is touched", () => {
+      const timer = new RxIdleTimer(100, { scheduler });
+      watch(timer, 30);
+
+      timer.start();
+      scheduler.schedule(() => timer.touch(), 50);
+      scheduler.schedule(() => timer.touch(), 150);
+      scheduler.flush();
+
+      expect(crossings).toEqual([
+        [30, 120],
+        [30, 220],
+      ]);
+    });
+
+    it("should stop watching on unsubscribe", () => {
+      const timer = new RxTimer(100, { scheduler });
+      const subscription = watch(timer, 30);
+
+      timer.start();
+      scheduler.schedule(() => subscription.unsubscribe(), 50);
+      scheduler.flush();
+
+      expect(crossings).toEqual([]);
+    });
+  });
+
+  describe("milestones option", () => {
+    it("should emit the MILESTONE event for every milestone", () => {
+      const timer = new RxTimer(100, {
+        scheduler,
+        milestones: [30, { percent: 90 }],
+      });
+      const events: [RxTimerEvent, number][] = [];
+      const milestones: RxTimerThreshold[] = [];
+      recordEvents(timer, scheduler, events);
+      timer.onMilestone().subscribe((m) => milestones.push(m));
+
+      timer.start();
+      scheduler.flush();
+
+      expect(events).toEqual([
+        [RxTimerEvent.START, 0],
+        [RxTimerEvent.MILESTONE, 70],
+        [RxTimerEvent.MILESTONE, 90],
+        [RxTimerEvent.TICK, 100],
+      ]);
+      expect(milestones).toEqual([30, { percent: 90 }]);
+    });
+
+    it("should emit the skipped milestones after the adjustment", () => {
+      const timer = new RxTimer(100, {
+        scheduler,
+        milestones: [30, { percent: 90 }],
+      });
+      const events = recordEvents(timer, scheduler);
+
+      timer.start();
+      scheduler.schedule(() => timer.setRemaining(0), 50);
+      scheduler.flush();
+
+      expect(events).toEqual([
+        [RxTimerEvent.START, 0],
+        [RxTimerEvent.ADJUST, 50],
+        [RxTimerEvent.MILESTONE, 50],
+        [RxTimerEvent.MILESTONE, 50],
+        [RxTimerEvent.TICK, 50],
+      ]);
+    });
+  });
+});
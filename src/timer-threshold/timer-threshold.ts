@@ -0,0 +1,128 @@
+import { Observable, Subscription, interval } from "rxjs";
+import { take } from "rxjs/operators";
+import { RxTimer, RxTimerEvent, RxTimerEventDetail } from "..";
+
+/**
+ * Point of a countdown cycle: either a remaining time in milliseconds, e.g.
+ * `30000` for "30 seconds left", or a percentage of the cycle that is done,
+ * e.g. `{ percent: 50 }` for "50% done".
+ */
+export type RxTimerThreshold = number | { percent: number };
+
+/**
+ * Event watched by a threshold. A silent adjustment, which emits no ADJUST event,
+ * is notified to the watchers only, e.g. when 'touch()' restarts the countdown of
+ * an idle timer.
+ */
+export type RxTimerThresholdEvent = RxTimerEventDetail & { silent?: boolean };
+
+/**
+ * Calls `cross` once per cycle when the countdown of the timer crosses the
+ * threshold, including when the threshold is skipped by an adjustment or
+ * reached by the end of the cycle. Only cycles counted after the watch begins
+ * are considered.
+ * @param timer The watched timer
+ * @param events$ The events of the timer
+ * @param threshold The threshold to watch
+ * @param cross The function called with the remaining time of the cycle
+ * @returns {Subscription} The subscription ending the watch.
+ */
+export function watchTimerThreshold(
+  timer: RxTimer,
+  events$: Observable<RxTimerThresholdEvent>,
+  threshold: RxTimerThreshold,
+  cross: (remaining: number) => void
+): Subscription {
+  /** Delay until the threshold of the current cycle */
+  let armed: Subscription | null = null;
+  /** Index of the cycle in which the threshold was crossed, or -1 */
+  let crossedCycle = -1;
+  /** Length of the watched cycle, measured when its countdown began */
+  let cycleLength = 0;
+  /** Index of the cycle whose length was measured, or -1 */
+  let measuredCycle = -1;
+
+  const crossCycle = (cycle: number, remaining: number): void => {
+    crossedCycle = cycle;
+    cross(remaining);
+  };
+
+  const arm = (): void => {
+    armed?.unsubscribe();
+    if (!timer.isCounting() || crossedCycle === timer.cycle) return;
+
+    const { cycle } = timer;
+    const remaining = timer.getRemainingMilliseconds();
+    // A stopwatch without a limit has no remaining time to cross
+    if (remaining < 0) return;
+    if (measuredCycle !== cycle) {
+      // The cycle may be shorter or longer than `duration`, e.g. with `endTime`
+      cycleLength = remaining;
+      measuredCycle = cycle;
+    }
+    const mark = getThresholdRemaining(threshold, cycleLength);
+    if (remaining <= mark) {
+      crossCycle(cycle, remaining);
+      return;
+    }
+
+    armed = interval(remaining - mark, timer.scheduler)
+      .pipe(take(1))
+      .subscribe(() => crossCycle(cycle, timer.getRemainingMilliseconds()));
+  };
+
+  const subscription = events$.subscribe(
+    ({ type, cycle, remaining, silent }) => {
+      switch (type) {
+        case RxTimerEvent.START:
+          crossedCycle = -1;
+          measuredCycle = -1;
+          arm();
+          break;
+        case RxTimerEvent.ADJUST:
+          // A silent adjustment restarts the countdown, which crosses the threshold again
+          if (
+            silent &&
+            remaining > getThresholdRemaining(threshold, cycleLength)
+          ) {
+            crossedCycle = -1;
+          }
+          arm();
+          break;
+        case RxTimerEvent.RESUME:
+          arm();
+          break;
+        case RxTimerEvent.TICK:
+          armed?.unsubscribe();
+          // The end of the cycle crosses every threshold that was not crossed yet
+          if (crossedCycle !== cycle) crossCycle(cycle, 0);
+          // The next cycle of a `continue` timer is armed once the tick is handled
+          armed = timer.scheduler.schedule(arm);
+          break;
+        case RxTimerEvent.PAUSE:
+        case RxTimerEvent.STOP:
+        case RxTimerEvent.RESET:
+        case RxTimerEvent.DESTROY:
+          armed?.unsubscribe();
+          break;
+      }
+    }
+  );
+  subscription.add(() => armed?.unsubscribe());
+
+  return subscription;
+}
+
+/**
+ * Converts the threshold into the remaining time of a cycle.
+ * @param threshold The threshold
+ * @param cycleLength The length of the cycle in milliseconds
+ */
+function getThresholdRemaining(
+  threshold: RxTimerThreshold,
+  cycleLength: number
+): number {
+  return typeof threshold === "number"
+    ? threshold
+    : cycleLength * (1 - threshold.percent / 100);
+}